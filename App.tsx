@@ -1,4 +1,10 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
 import {
   Play,
   Pause,
@@ -18,41 +24,186 @@ import {
   AlertTriangle,
   Edit3,
   Home,
+  Users,
+  Grid3x3,
+  Route,
+  Dices,
+  Gauge,
 } from "lucide-react";
-import { MazeGenerator } from "./services/MazeGenerator";
-import { QLearningAgent } from "./services/QLearningAgent";
+import {
+  MazeGenerator,
+  DEFAULT_SEED,
+  DEFAULT_MAZE_ALGORITHM,
+} from "./services/MazeGenerator";
+import { TabularAgent } from "./services/TabularAgent";
+import { SEED_RANGE, parseSeed, randomSeed } from "./services/SeededRandom";
+import {
+  ALGORITHMS,
+  TRACE_ALGORITHMS,
+  createAgent,
+  deserializeAgent,
+  untrainedCopy,
+} from "./services/AgentFactory";
+import { TransferPanel } from "./components/TransferPanel";
+import { BatchTrainer } from "./services/BatchTrainer";
+import { DEFAULT_TRANSFER } from "./services/TransferEvaluation";
+import {
+  EligibilityTraceAgent,
+  DEFAULT_LAMBDA,
+  DEFAULT_TRACE_KIND,
+  TRACE_KINDS,
+} from "./services/EligibilityTraceAgent";
+import { DynaQAgent, DEFAULT_PLANNING } from "./services/DynaQAgent";
+import {
+  MazeEnvironment,
+  DEFAULT_REWARDS,
+  DEFAULT_DYNAMICS,
+} from "./services/MazeEnvironment";
+import { PathSolver } from "./services/PathSolver";
+import { cellTypeOf, goalColor } from "./services/CellTypes";
 import { MazeScene } from "./components/MazeScene";
 import { MazeDesigner } from "./components/MazeDesigner";
 import { LandingPage } from "./components/LandingPage";
-import { Position, MazeCell, Action, SimulationState, View } from "./types";
+import { RewardSettings } from "./components/RewardSettings";
+import { DynamicsSettings } from "./components/DynamicsSettings";
+import { ShiftSettings } from "./components/ShiftSettings";
+import { AdaptationChart } from "./components/AdaptationChart";
+import { DEFAULT_SHIFT, shiftLayout } from "./services/EnvironmentEvents";
+import { ObservationSettings } from "./components/ObservationSettings";
+import {
+  DEFAULT_OBSERVATION,
+  cellStateKey,
+  gridBlocked,
+} from "./services/StateEncoders";
+import { ExplorationSettings } from "./components/ExplorationSettings";
+import { DEFAULT_EXPLORATION } from "./services/ExplorationPolicies";
+import { ScheduleSettings } from "./components/ScheduleSettings";
+import { PlanningSettings } from "./components/PlanningSettings";
+import {
+  DEFAULT_ALPHA_SCHEDULE,
+  DEFAULT_EPSILON_SCHEDULE,
+} from "./services/Schedules";
+import { ComparisonView } from "./components/ComparisonView";
+import { LearningCurves } from "./components/LearningCurves";
+import { NewMazeDialog } from "./components/NewMazeDialog";
+import { OverlaySettings } from "./components/OverlaySettings";
+import { QInspector } from "./components/QInspector";
+import { ReplayPanel, ReplaySelection } from "./components/ReplayPanel";
+import {
+  EpisodeRecorder,
+  replayTrajectory,
+} from "./services/EpisodeRecorder";
+import {
+  BatchTrainingPanel,
+  TrainProgress,
+} from "./components/BatchTrainingPanel";
+import {
+  Action,
+  Algorithm,
+  Position,
+  MazeCell,
+  MazeConfig,
+  SimulationState,
+  View,
+  RewardConfig,
+  DynamicsConfig,
+  ShiftConfig,
+  MazeShift,
+  ObservationConfig,
+  EpisodeRecord,
+  EvalRecord,
+  EpisodeRecording,
+  ExplorationConfig,
+  ScheduleConfig,
+  PlanningConfig,
+  TraceKind,
+  TrainerMessage,
+  TrainerRequest,
+  TransferConfig,
+  TransferMessage,
+  TransferReport,
+  TransferRequest,
+} from "./types";
 
-const MAZE_SIZE = 15;
+const DEFAULT_MAZE: MazeConfig = {
+  width: 15,
+  height: 15,
+  seed: DEFAULT_SEED,
+  algorithm: DEFAULT_MAZE_ALGORITHM,
+  braid: 0,
+};
 const DEFAULT_START: Position = { x: 0, y: 0 };
-const DEFAULT_GOAL: Position = { x: MAZE_SIZE - 1, y: MAZE_SIZE - 1 };
+const DEFAULT_GOAL: Position = {
+  x: DEFAULT_MAZE.width - 1,
+  y: DEFAULT_MAZE.height - 1,
+};
 const MAX_STEPS = 2000;
 
+const DEFAULT_ALGORITHM: Algorithm = "q-learning";
 const DEFAULT_ALPHA = 0.1;
 const DEFAULT_GAMMA = 0.9;
 const DEFAULT_EPSILON = 0.2;
+const DEFAULT_AGENT_SEED = 42;
 const DEFAULT_SPEED = 400;
+const DEFAULT_BATCH_EPISODES = 500;
+const REPLAY_FRAME_MS = 120;
+const REPLAY_GHOST_COLOR = "#fb923c";
 
 const App: React.FC = () => {
-  const agentRef = useRef<QLearningAgent>(
-    new QLearningAgent(DEFAULT_ALPHA, DEFAULT_GAMMA, DEFAULT_EPSILON)
+  const agentRef = useRef<TabularAgent>(
+    createAgent(
+      DEFAULT_ALGORITHM,
+      DEFAULT_ALPHA,
+      DEFAULT_GAMMA,
+      DEFAULT_EPSILON,
+      DEFAULT_AGENT_SEED
+    )
   );
-  const mazeGen = useRef<MazeGenerator>(
-    new MazeGenerator(MAZE_SIZE, MAZE_SIZE)
+  const envRef = useRef<MazeEnvironment>(
+    new MazeEnvironment([], DEFAULT_START, DEFAULT_GOAL, MAX_STEPS)
   );
+  const trainerRef = useRef<Worker | null>(null);
+  const transferRef = useRef<Worker | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [view, setView] = useState<View>("landing");
+  const [mazeConfig, setMazeConfig] = useState<MazeConfig>(DEFAULT_MAZE);
+  const [showNewMaze, setShowNewMaze] = useState(false);
   const [startPos, setStartPos] = useState<Position>(DEFAULT_START);
   const [goalPos, setGoalPos] = useState<Position>(DEFAULT_GOAL);
 
+  const [algorithm, setAlgorithm] = useState<Algorithm>(DEFAULT_ALGORITHM);
   const [alpha, setAlpha] = useState(DEFAULT_ALPHA);
   const [gamma, setGamma] = useState(DEFAULT_GAMMA);
   const [initialEpsilon, setInitialEpsilon] = useState(DEFAULT_EPSILON);
+  const [lambda, setLambda] = useState(DEFAULT_LAMBDA);
+  const [traceKind, setTraceKind] = useState<TraceKind>(DEFAULT_TRACE_KIND);
+  const [planning, setPlanning] = useState<PlanningConfig>(DEFAULT_PLANNING);
+  // Kept across resets so the same run can be replayed step for step
+  const [agentSeed, setAgentSeed] = useState(DEFAULT_AGENT_SEED);
+  const [exploration, setExploration] =
+    useState<ExplorationConfig>(DEFAULT_EXPLORATION);
+  const [epsilonSchedule, setEpsilonSchedule] = useState<ScheduleConfig>(
+    DEFAULT_EPSILON_SCHEDULE
+  );
+  const [alphaSchedule, setAlphaSchedule] = useState<ScheduleConfig>(
+    DEFAULT_ALPHA_SCHEDULE
+  );
+  const [rewardConfig, setRewardConfig] =
+    useState<RewardConfig>(DEFAULT_REWARDS);
+  const [dynamics, setDynamics] = useState<DynamicsConfig>(DEFAULT_DYNAMICS);
+  const [shift, setShift] = useState<ShiftConfig>(DEFAULT_SHIFT);
+  // The configured shift has no layout, e.g. no wall on the route can close without opening a shortcut
+  const [shiftRefused, setShiftRefused] = useState(false);
+  const [observation, setObservation] =
+    useState<ObservationConfig>(DEFAULT_OBSERVATION);
   const [showInfo, setShowInfo] = useState(false);
+  const [showOptimalPath, setShowOptimalPath] = useState(false);
+  const [showPolicy, setShowPolicy] = useState(false);
+  const [showTraces, setShowTraces] = useState(false);
+  const [showView, setShowView] = useState(false);
+  const [hoveredCell, setHoveredCell] = useState<Position | null>(null);
+  const [pinnedCell, setPinnedCell] = useState<Position | null>(null);
 
   const [gridState, setGridState] = useState<MazeCell[][]>([]);
   const [agentPosState, setAgentPosState] = useState<Position>(DEFAULT_START);
@@ -65,11 +216,32 @@ const App: React.FC = () => {
     totalReward: 0,
     epsilon: DEFAULT_EPSILON,
     isGoalReached: false,
+    isTrapped: false,
     bestStepCount: null,
+    wallHits: 0,
   });
   const [isPlaying, setIsPlaying] = useState(false);
   const [speedValue, setSpeedValue] = useState(DEFAULT_SPEED);
   const [qTableState, setQTableState] = useState<Record<string, number[]>>({});
+  const [traceState, setTraceState] = useState<Record<string, number>>({});
+  const [planningStats, setPlanningStats] = useState({
+    updates: 0,
+    modelSize: 0,
+  });
+  const [batchEpisodes, setBatchEpisodes] = useState(DEFAULT_BATCH_EPISODES);
+  // Greedy evaluation after every this many finished episodes, 0 for none
+  const [evalEvery, setEvalEvery] = useState(0);
+  const evalEveryRef = useRef(0);
+  const [trainProgress, setTrainProgress] = useState<TrainProgress | null>(
+    null
+  );
+  const [transferConfig, setTransferConfig] =
+    useState<TransferConfig>(DEFAULT_TRANSFER);
+  const [transferProgress, setTransferProgress] =
+    useState<TrainProgress | null>(null);
+  const [transferReport, setTransferReport] = useState<TransferReport | null>(
+    null
+  );
 
   const simInternalState = useRef<SimulationState>({
     episode: 1,
@@ -77,130 +249,518 @@ const App: React.FC = () => {
     totalReward: 0,
     epsilon: DEFAULT_EPSILON,
     isGoalReached: false,
+    isTrapped: false,
     bestStepCount: null,
+    wallHits: 0,
   });
   const agentPosInternal = useRef<Position>(DEFAULT_START);
-  const gridInternal = useRef<MazeCell[][]>([]);
+  // Action already committed for the next step, so on-policy agents act on what they bootstrapped from
+  const pendingActionInternal = useRef<Action | null>(null);
   const exploredCellsInternal = useRef<Set<string>>(new Set());
+  const historyInternal = useRef<EpisodeRecord[]>([]);
+  const [historyState, setHistoryState] = useState<EpisodeRecord[]>([]);
+  // Every greedy evaluation of the run, live and from batches, in episode order
+  const evaluationsInternal = useRef<EvalRecord[]>([]);
+  const [evaluationsState, setEvaluationsState] = useState<EvalRecord[]>([]);
+  const recorderRef = useRef(new EpisodeRecorder());
+  // The upcoming maze shift, read by the step loop, and the layout it replaced once it has happened
+  const shiftRef = useRef<(MazeShift & { original: MazeCell[][] }) | null>(null);
+  const preShiftGridRef = useRef<MazeCell[][] | null>(null);
+  const [recordingsState, setRecordingsState] = useState<EpisodeRecording[]>(
+    []
+  );
+  const [replay, setReplay] = useState<ReplaySelection | null>(null);
+  const [replayFrame, setReplayFrame] = useState(0);
+  const [isReplayPlaying, setIsReplayPlaying] = useState(false);
 
   const syncToUI = useCallback(() => {
     setSimUIState({ ...simInternalState.current });
     setAgentPosState({ ...agentPosInternal.current });
     setExploredCellsState(new Set(exploredCellsInternal.current));
+    // History only grows at episode boundaries, so skip the copy on ordinary steps
+    setHistoryState((prev) =>
+      prev.length === historyInternal.current.length
+        ? prev
+        : [...historyInternal.current]
+    );
+    setEvaluationsState((prev) =>
+      prev.length === evaluationsInternal.current.length
+        ? prev
+        : [...evaluationsInternal.current]
+    );
+    const agent = agentRef.current;
+    setTraceState(
+      agent instanceof EligibilityTraceAgent ? agent.getTraceMagnitudes() : {}
+    );
+    if (agent instanceof DynaQAgent) {
+      setPlanningStats({
+        updates: agent.planningUpdates,
+        modelSize: agent.getModelSize(),
+      });
+    }
+    const recordings = recorderRef.current.getRecordings();
+    setRecordingsState((prev) =>
+      prev[prev.length - 1] === recordings[recordings.length - 1]
+        ? prev
+        : [...recordings]
+    );
   }, []);
 
-  const isLocked = simUIState.episode > 1 || simUIState.step > 0;
+  // Doors, gates and patrols make the route depend on keys and timing, so no optimum is shown for them
+  const pathSolver = useMemo(() => new PathSolver(gridState), [gridState]);
+  const optimal = useMemo(
+    () =>
+      gridState.length > 0 && pathSolver.exact
+        ? pathSolver.shortestPath(startPos, goalPos)
+        : null,
+    [gridState, pathSolver, startPos, goalPos]
+  );
+  // An episode may also end on an extra goal or the last collectible, and then its length says nothing about the main goal
+  const otherEndings = useMemo(
+    () =>
+      gridState
+        .flat()
+        .some(
+          (cell) =>
+            !cell.isWall &&
+            (cell.cellType === "extra-goal" || cell.cellType === "collectible")
+        ),
+    [gridState]
+  );
+  // Recovery after a shift is measured against the optimum of each layout; known once the shift has happened
+  const originalGrid = preShiftGridRef.current;
+  const shiftOptima = useMemo(() => {
+    if (!originalGrid) return null;
+    const distance = (grid: MazeCell[][]) => {
+      const solver = new PathSolver(grid);
+      return solver.exact
+        ? (solver.shortestPath(startPos, goalPos)?.distance ?? null)
+        : null;
+    };
+    const before = distance(originalGrid);
+    const after = distance(gridState);
+    return before !== null && after !== null ? { before, after } : null;
+  }, [originalGrid, gridState, startPos, goalPos]);
+  const gap =
+    optimal && !otherEndings && simUIState.bestStepCount !== null
+      ? simUIState.bestStepCount - optimal.distance
+      : null;
+
+  // Every open cell except the terminal goal can be tried in four directions
+  const modelCapacity = useMemo(
+    () => (gridState.flat().filter((cell) => !cell.isWall).length - 1) * 4,
+    [gridState]
+  );
+
+  const extraGoals = useMemo(
+    () => gridState.flat().filter((cell) => cellTypeOf(cell) === "extra-goal"),
+    [gridState]
+  );
+
+  // Episodes from before a maze shift replay on the layout they ran on
+  const layoutOf = useCallback(
+    (r: EpisodeRecording) =>
+      r.shifted ? gridState : (preShiftGridRef.current ?? gridState),
+    [gridState]
+  );
+  const replayTracks = useMemo(() => {
+    if (!replay || gridState.length === 0) return null;
+    const track = (r: EpisodeRecording) =>
+      replayTrajectory(layoutOf(r), startPos, goalPos, r.actions);
+    return {
+      primary: track(replay.primary),
+      ghost: replay.ghost ? track(replay.ghost) : null,
+    };
+  }, [replay, gridState, startPos, goalPos, layoutOf]);
+  const replayLength = replayTracks
+    ? Math.max(replayTracks.primary.length, replayTracks.ghost?.length ?? 0)
+    : 0;
+  const replayAt = (track: Position[]) =>
+    track[Math.min(replayFrame, track.length - 1)];
+
+  const selectReplay = (selection: ReplaySelection | null) => {
+    if (selection) setIsPlaying(false);
+    setReplay(selection);
+    setReplayFrame(0);
+    setIsReplayPlaying(false);
+  };
+
+  // The live run and a replay share the scene, so starting the run leaves replay mode
+  useEffect(() => {
+    if (isPlaying) setReplay(null);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    if (!isReplayPlaying) return;
+    if (replayFrame >= replayLength - 1) {
+      setIsReplayPlaying(false);
+      return;
+    }
+    const timeout = window.setTimeout(
+      () => setReplayFrame((frame) => frame + 1),
+      REPLAY_FRAME_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [isReplayPlaying, replayFrame, replayLength]);
+
+  const replayTrail = useMemo(
+    () =>
+      new Set(
+        replayTracks?.primary
+          .slice(0, replayFrame + 1)
+          .map((p) => `${p.x},${p.y}`) ?? []
+      ),
+    [replayTracks, replayFrame]
+  );
+
+  const inspectedCell = pinnedCell ?? hoveredCell;
+  // Under a local view the inspector shows the state the cell shares with its look-alikes, and like the
+  // heat map it reads the layer of the keys and pickups the agent holds now
+  const inspectedView = inspectedCell
+    ? cellStateKey(
+        gridBlocked(gridState, agentPosState.keys, simUIState.step),
+        inspectedCell,
+        goalPos,
+        observation
+      )
+    : null;
+  const inspectedKey =
+    inspectedView !== null && agentPosState.keys
+      ? `${inspectedView}|${agentPosState.keys}`
+      : inspectedView;
+
+  const isLocked =
+    simUIState.episode > 1 || simUIState.step > 0 || trainProgress !== null;
 
   useEffect(() => {
     if (!isLocked) {
-      agentRef.current.setParameters(alpha, gamma, initialEpsilon);
+      if (agentRef.current.algorithm !== algorithm) {
+        agentRef.current = createAgent(
+          algorithm,
+          alpha,
+          gamma,
+          initialEpsilon,
+          agentSeed
+        );
+        pendingActionInternal.current = null;
+      } else {
+        agentRef.current.setParameters(alpha, gamma, initialEpsilon);
+        agentRef.current.reseed(agentSeed);
+      }
+      // Slips draw from the same seed, so a seeded run replays on slippery floors too
+      envRef.current.reseed(agentSeed);
+      agentRef.current.setExploration(exploration);
+      agentRef.current.setSchedules(epsilonSchedule, alphaSchedule);
+      if (agentRef.current instanceof EligibilityTraceAgent) {
+        agentRef.current.setTraceParameters(lambda, traceKind);
+      }
+      if (agentRef.current instanceof DynaQAgent) {
+        agentRef.current.setPlanning(planning);
+      }
       simInternalState.current.epsilon = initialEpsilon;
       setSimUIState((prev) => ({ ...prev, epsilon: initialEpsilon }));
     }
-  }, [alpha, gamma, initialEpsilon, isLocked]);
+  }, [
+    algorithm,
+    alpha,
+    gamma,
+    initialEpsilon,
+    agentSeed,
+    exploration,
+    epsilonSchedule,
+    alphaSchedule,
+    lambda,
+    traceKind,
+    planning,
+    isLocked,
+  ]);
+
+  useEffect(() => {
+    envRef.current.rewards = { ...rewardConfig };
+    envRef.current.dynamics = { ...dynamics };
+    envRef.current.gamma = gamma;
+  }, [rewardConfig, dynamics, gamma]);
+
+  useEffect(() => {
+    evalEveryRef.current = evalEvery;
+  }, [evalEvery]);
+
+  // Only editable before the first step, so the start state can be re-read in place
+  useEffect(() => {
+    envRef.current.observation = { ...observation };
+    agentPosInternal.current = envRef.current.getPosition();
+  }, [observation]);
+
+  // A shift that already happened keeps the layouts it swapped between
+  useEffect(() => {
+    if (preShiftGridRef.current) return;
+    const shifted =
+      shift.enabled && gridState.length > 0
+        ? shiftLayout(gridState, startPos, goalPos, shift, mazeConfig)
+        : null;
+    shiftRef.current = shifted
+      ? { episode: shift.episode, grid: shifted, original: gridState }
+      : null;
+    setShiftRefused(shift.enabled && gridState.length > 0 && !shifted);
+  }, [shift, gridState, startPos, goalPos, mazeConfig]);
+
+  const stopBatchTraining = useCallback(() => {
+    trainerRef.current?.terminate();
+    trainerRef.current = null;
+    setTrainProgress(null);
+  }, []);
+
+  useEffect(() => stopBatchTraining, [stopBatchTraining]);
+
+  const stopTransfer = useCallback(() => {
+    transferRef.current?.terminate();
+    transferRef.current = null;
+    setTransferProgress(null);
+  }, []);
+
+  useEffect(() => stopTransfer, [stopTransfer]);
+
+  // Trains a fresh copy of the configured agent on generated mazes; the live runner is left alone
+  const startTransfer = () => {
+    if (transferRef.current) return;
+
+    const { width, height, algorithm, braid } = mazeConfig;
+    const request: TransferRequest = {
+      agent: untrainedCopy(agentRef.current).serialize(),
+      config: transferConfig,
+      setup: {
+        width,
+        height,
+        algorithm,
+        braid,
+        maxSteps: envRef.current.maxSteps,
+        rewards: envRef.current.rewards,
+        dynamics: envRef.current.dynamics,
+        observation: envRef.current.observation,
+      },
+    };
+
+    const worker = new Worker(
+      new URL("./services/transfer.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    transferRef.current = worker;
+    setTransferReport(null);
+    setTransferProgress({
+      completed: 0,
+      total: transferConfig.trainMazes * transferConfig.episodesPerMaze,
+    });
+
+    worker.onmessage = (event: MessageEvent<TransferMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        setTransferProgress({
+          completed: message.completed,
+          total: message.total,
+        });
+        return;
+      }
+      setTransferReport(message.report);
+      stopTransfer();
+    };
+    worker.onerror = () => {
+      stopTransfer();
+      alert("Transfer evaluation failed.");
+    };
+    worker.postMessage(request);
+  };
+
+  // Clears what the agent has learned and the run's progress, keeping every setting
+  const resetProgress = useCallback(() => {
+    stopBatchTraining();
+
+    // Undo a maze shift so the next run starts on the original layout
+    if (preShiftGridRef.current) {
+      const original = preShiftGridRef.current;
+      preShiftGridRef.current = null;
+      envRef.current.setGrid(original);
+      setGridState(original);
+    }
 
-  const resetRunner = useCallback(() => {
     // Reset positions
-    agentPosInternal.current = { ...startPos };
-    setAgentPosState({ ...startPos });
+    agentPosInternal.current = envRef.current.reset();
+    setAgentPosState({ ...agentPosInternal.current });
 
     // Reset exploration
-    exploredCellsInternal.current = new Set([`${startPos.x},${startPos.y}`]);
+    const start = agentPosInternal.current;
+    exploredCellsInternal.current = new Set([`${start.x},${start.y}`]);
     setExploredCellsState(new Set(exploredCellsInternal.current));
 
-    // Reset Agent Knowledge and Traits
-    agentRef.current.resetQTable();
-    agentRef.current.setParameters(
-      DEFAULT_ALPHA,
-      DEFAULT_GAMMA,
-      DEFAULT_EPSILON
-    );
-
-    // Reset UI inputs
-    setAlpha(DEFAULT_ALPHA);
-    setGamma(DEFAULT_GAMMA);
-    setInitialEpsilon(DEFAULT_EPSILON);
-    setSpeedValue(DEFAULT_SPEED);
+    // Reset Agent Knowledge
+    agentRef.current = untrainedCopy(agentRef.current);
+    pendingActionInternal.current = null;
 
     const freshState: SimulationState = {
       episode: 1,
       step: 0,
       totalReward: 0,
-      epsilon: DEFAULT_EPSILON,
+      epsilon: agentRef.current.epsilon,
       isGoalReached: false,
+      isTrapped: false,
       bestStepCount: null,
+      wallHits: 0,
     };
     simInternalState.current = freshState;
     setSimUIState(freshState);
+    historyInternal.current = [];
+    setHistoryState([]);
+    evaluationsInternal.current = [];
+    setEvaluationsState([]);
+    recorderRef.current.clear();
+    setRecordingsState([]);
+    setReplay(null);
 
     setQTableState({});
+    setTraceState({});
+    setPlanningStats({ updates: 0, modelSize: 0 });
     setIsPlaying(false);
-  }, [startPos]);
+  }, [stopBatchTraining]);
+
+  // The reset button also puts every setting back to its default
+  const resetRunner = useCallback(() => {
+    agentRef.current = createAgent(
+      DEFAULT_ALGORITHM,
+      DEFAULT_ALPHA,
+      DEFAULT_GAMMA,
+      DEFAULT_EPSILON,
+      agentSeed
+    );
+
+    setAlgorithm(DEFAULT_ALGORITHM);
+    setAlpha(DEFAULT_ALPHA);
+    setGamma(DEFAULT_GAMMA);
+    setInitialEpsilon(DEFAULT_EPSILON);
+    setLambda(DEFAULT_LAMBDA);
+    setTraceKind(DEFAULT_TRACE_KIND);
+    setPlanning(DEFAULT_PLANNING);
+    setExploration(DEFAULT_EXPLORATION);
+    setEpsilonSchedule(DEFAULT_EPSILON_SCHEDULE);
+    setAlphaSchedule(DEFAULT_ALPHA_SCHEDULE);
+    setRewardConfig(DEFAULT_REWARDS);
+    setDynamics(DEFAULT_DYNAMICS);
+    setShift(DEFAULT_SHIFT);
+    setObservation(DEFAULT_OBSERVATION);
+    setEvalEvery(0);
+    setSpeedValue(DEFAULT_SPEED);
+
+    resetProgress();
+  }, [resetProgress, agentSeed]);
+
+  // Swapping the maze invalidates everything learned on the old one, but the settings still apply
+  const applyLayout = useCallback(
+    (newGrid: MazeCell[][], newStart: Position, newGoal: Position) => {
+      setGridState(newGrid);
+      setStartPos(newStart);
+      setGoalPos(newGoal);
+      setHoveredCell(null);
+      setPinnedCell(null);
+      preShiftGridRef.current = null;
+      envRef.current.setLayout(newGrid, newStart, newGoal);
+      resetProgress();
+    },
+    [resetProgress]
+  );
+
+  const generateMaze = useCallback(
+    (config: MazeConfig) => {
+      const grid = new MazeGenerator(config.width, config.height, {
+        seed: config.seed,
+        algorithm: config.algorithm,
+        braid: config.braid,
+      }).generate();
+      setMazeConfig(config);
+      applyLayout(grid, DEFAULT_START, {
+        x: config.width - 1,
+        y: config.height - 1,
+      });
+    },
+    [applyLayout]
+  );
 
   useEffect(() => {
-    const staticMaze = mazeGen.current.generate();
-    gridInternal.current = staticMaze;
-    setGridState(staticMaze);
-    resetRunner();
+    generateMaze(DEFAULT_MAZE);
+  }, []);
+
+  // The evaluation runs on a copy of the maze, so an episode in progress carries on untouched
+  const evaluatePolicy = useCallback(() => {
+    const s = simInternalState.current;
+    s.lastEval = new BatchTrainer(
+      agentRef.current,
+      envRef.current,
+      undefined,
+      s.episode
+    ).evaluate();
+    evaluationsInternal.current.push(s.lastEval);
   }, []);
 
   const runStep = useCallback(() => {
     const s = simInternalState.current;
-    const pos = agentPosInternal.current;
-    const grid = gridInternal.current;
+    const env = envRef.current;
 
-    if (s.isGoalReached || s.step >= MAX_STEPS) {
+    if (s.isGoalReached || s.isTrapped || s.step >= env.maxSteps) {
       const finalCount = s.step;
       const success = s.isGoalReached;
-      agentRef.current.decayCuriosity();
-      agentPosInternal.current = { ...startPos };
+      historyInternal.current.push({
+        episode: s.episode,
+        steps: finalCount,
+        totalReward: s.totalReward,
+        epsilon: s.epsilon,
+        success,
+        wallHits: s.wallHits,
+      });
+      recorderRef.current.finish(s.episode, success, s.totalReward);
+      agentRef.current.decay();
+      // The shift lands between episodes; the agent keeps its table and has to re-adapt
+      const pending = shiftRef.current;
+      if (pending && !preShiftGridRef.current && s.episode + 1 === pending.episode) {
+        preShiftGridRef.current = pending.original;
+        recorderRef.current.shifted = true;
+        env.setGrid(pending.grid);
+        setGridState(pending.grid);
+      }
+      agentPosInternal.current = env.reset();
+      pendingActionInternal.current = null;
       s.episode += 1;
       s.step = 0;
       s.totalReward = 0;
+      s.wallHits = 0;
       s.epsilon = agentRef.current.epsilon;
       s.isGoalReached = false;
+      s.isTrapped = false;
       if (success) {
         s.bestStepCount =
           s.bestStepCount === null
             ? finalCount
             : Math.min(s.bestStepCount, finalCount);
       }
-      exploredCellsInternal.current = new Set([`${startPos.x},${startPos.y}`]);
+      const start = agentPosInternal.current;
+      exploredCellsInternal.current = new Set([`${start.x},${start.y}`]);
+      const every = evalEveryRef.current;
+      if (every > 0 && (s.episode - 1) % every === 0) evaluatePolicy();
       return;
     }
 
-    const action = agentRef.current.chooseAction(pos);
-    let nextX = pos.x;
-    let nextY = pos.y;
-    if (action === Action.UP) nextY -= 1;
-    else if (action === Action.RIGHT) nextX += 1;
-    else if (action === Action.DOWN) nextY += 1;
-    else if (action === Action.LEFT) nextX -= 1;
-
-    let reward = -1;
-    let finalNextPos = { x: nextX, y: nextY };
-    let reached = false;
-
-    const outOfBounds =
-      nextX < 0 || nextX >= MAZE_SIZE || nextY < 0 || nextY >= MAZE_SIZE;
-    const hitWall = outOfBounds || grid[nextY][nextX].isWall;
-
-    if (hitWall) {
-      reward = -100;
-      finalNextPos = { ...pos };
-    } else if (nextX === goalPos.x && nextY === goalPos.y) {
-      reward = 1000;
-      reached = true;
-    }
-
-    agentRef.current.update(pos, action, reward, finalNextPos);
+    const agent = agentRef.current;
+    const pos = agentPosInternal.current;
+    const action = pendingActionInternal.current ?? agent.chooseAction(pos);
+    const { nextState, reward, done, info } = env.step(action);
+    recorderRef.current.record(info.move);
+    const nextAction = agent.learnAndChoose(pos, action, reward, nextState, done);
 
-    agentPosInternal.current = finalNextPos;
-    s.step += 1;
+    pendingActionInternal.current = nextAction ?? null;
+    agentPosInternal.current = nextState;
+    s.step = info.step;
     s.totalReward += reward;
-    s.isGoalReached = reached;
-    exploredCellsInternal.current.add(`${finalNextPos.x},${finalNextPos.y}`);
-  }, [startPos, goalPos]);
+    s.isGoalReached = info.reachedGoal;
+    s.isTrapped = info.trapped;
+    if (info.hitWall) s.wallHits += 1;
+    exploredCellsInternal.current.add(`${nextState.x},${nextState.y}`);
+  }, [evaluatePolicy]);
 
   useEffect(() => {
     if (!isPlaying) return;
@@ -220,6 +780,7 @@ const App: React.FC = () => {
           runStep();
           if (
             simInternalState.current.isGoalReached ||
+            simInternalState.current.isTrapped ||
             simInternalState.current.step === 0
           )
             break;
@@ -231,12 +792,124 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [isPlaying, speedValue, runStep, syncToUI]);
 
+  const startBatchTraining = () => {
+    if (trainerRef.current) return;
+    setIsPlaying(false);
+
+    const agent = agentRef.current;
+    const firstEpisode = simInternalState.current.episode;
+    const pending = shiftRef.current;
+    const batchShift =
+      pending &&
+      !preShiftGridRef.current &&
+      pending.episode >= firstEpisode &&
+      pending.episode < firstEpisode + batchEpisodes
+        ? pending
+        : null;
+    const request: TrainerRequest = {
+      grid: gridState,
+      startPos,
+      goalPos,
+      maxSteps: envRef.current.maxSteps,
+      rewards: envRef.current.rewards,
+      dynamics: envRef.current.dynamics,
+      seed: agent.seed + firstEpisode,
+      agent: agent.serialize(),
+      episodes: batchEpisodes,
+      firstEpisode,
+      shift: batchShift
+        ? { episode: batchShift.episode, grid: batchShift.grid }
+        : undefined,
+      shifted: recorderRef.current.shifted,
+      observation: envRef.current.observation,
+      evalEvery,
+    };
+
+    const worker = new Worker(
+      new URL("./services/trainer.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    trainerRef.current = worker;
+    setTrainProgress({ completed: 0, total: batchEpisodes });
+
+    worker.onmessage = (event: MessageEvent<TrainerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        setTrainProgress({
+          completed: message.completed,
+          total: message.total,
+        });
+        return;
+      }
+
+      // Any half-finished live episode is abandoned in favour of the trained table
+      agent.restore(message.agent);
+      pendingActionInternal.current = null;
+      recorderRef.current.discard();
+      message.recordings.forEach((r) => recorderRef.current.add(r));
+
+      const s = simInternalState.current;
+      const { summary } = message;
+      summary.results.forEach((result, i) =>
+        historyInternal.current.push({ ...result, episode: s.episode + i })
+      );
+      s.episode += summary.episodes;
+      s.step = 0;
+      s.totalReward = 0;
+      s.wallHits = 0;
+      s.epsilon = agent.epsilon;
+      s.isGoalReached = false;
+      s.isTrapped = false;
+      if (summary.evaluations.length > 0) {
+        evaluationsInternal.current.push(...summary.evaluations);
+        s.lastEval = summary.evaluations[summary.evaluations.length - 1];
+      }
+      if (summary.bestStepCount !== null) {
+        s.bestStepCount =
+          s.bestStepCount === null
+            ? summary.bestStepCount
+            : Math.min(s.bestStepCount, summary.bestStepCount);
+      }
+      if (batchShift) {
+        preShiftGridRef.current = batchShift.original;
+        recorderRef.current.shifted = true;
+        envRef.current.setGrid(batchShift.grid);
+        setGridState(batchShift.grid);
+      }
+      agentPosInternal.current = envRef.current.reset();
+      const start = agentPosInternal.current;
+      exploredCellsInternal.current = new Set([`${start.x},${start.y}`]);
+
+      setQTableState({ ...agent.qTable });
+      syncToUI();
+      stopBatchTraining();
+    };
+    worker.onerror = () => {
+      stopBatchTraining();
+      alert("Batch training failed.");
+    };
+    worker.postMessage(request);
+  };
+
   const saveRunner = () => {
+    const { qTable, ...agentState } = agentRef.current.serialize();
     const data = {
       grid: gridState,
+      // The layout a maze shift replaced, for replays of the episodes before it
+      originalGrid: preShiftGridRef.current ?? undefined,
       startPos,
       goalPos,
-      qTable: agentRef.current.qTable,
+      qTable,
+      agent: agentState,
+      rewards: envRef.current.rewards,
+      dynamics: envRef.current.dynamics,
+      shift,
+      observation,
+      evalEvery,
+      maze: mazeConfig,
+      history: historyInternal.current,
+      evaluations: evaluationsInternal.current,
+      recordings: recorderRef.current.getRecordings(),
       simState: {
         ...simInternalState.current,
         initialEpsilon: agentRef.current.initialEpsilon,
@@ -264,39 +937,76 @@ const App: React.FC = () => {
       try {
         const data = JSON.parse(e.target?.result as string);
         if (data.qTable) {
-          if (data.grid) {
-            gridInternal.current = data.grid;
-            setGridState(data.grid);
-          }
+          stopBatchTraining();
+          const activeGrid: MazeCell[][] = data.grid || gridState;
+          const activeStart: Position = data.startPos || startPos;
+          const activeGoal: Position = data.goalPos || goalPos;
+          if (data.grid) setGridState(activeGrid);
           if (data.startPos) setStartPos(data.startPos);
           if (data.goalPos) setGoalPos(data.goalPos);
+          if (data.maze) setMazeConfig({ ...DEFAULT_MAZE, ...data.maze });
+          preShiftGridRef.current = data.originalGrid ?? null;
+          envRef.current.setLayout(activeGrid, activeStart, activeGoal);
 
-          agentRef.current.setQTable(data.qTable);
           const s = data.simState;
-          setAlpha(s.alpha ?? DEFAULT_ALPHA);
-          setGamma(s.gamma ?? DEFAULT_GAMMA);
-          setInitialEpsilon(s.initialEpsilon ?? DEFAULT_EPSILON);
-          agentRef.current.alpha = s.alpha ?? DEFAULT_ALPHA;
-          agentRef.current.gamma = s.gamma ?? DEFAULT_GAMMA;
-          agentRef.current.initialEpsilon = s.initialEpsilon ?? DEFAULT_EPSILON;
-          agentRef.current.epsilon =
-            s.epsilon ?? s.initialEpsilon ?? DEFAULT_EPSILON;
+          // Runners saved before the algorithm picker only carry their traits in simState
+          const agent = deserializeAgent({
+            alpha: s.alpha ?? DEFAULT_ALPHA,
+            gamma: s.gamma ?? DEFAULT_GAMMA,
+            initialEpsilon: s.initialEpsilon ?? DEFAULT_EPSILON,
+            epsilon: s.epsilon ?? s.initialEpsilon ?? DEFAULT_EPSILON,
+            ...data.agent,
+            qTable: data.qTable,
+          });
+          agentRef.current = agent;
+          pendingActionInternal.current = null;
+          setAlgorithm(agent.algorithm);
+          setAlpha(agent.initialAlpha);
+          setGamma(agent.gamma);
+          setInitialEpsilon(agent.initialEpsilon);
+          setAgentSeed(agent.seed);
+          setExploration(agent.exploration);
+          setEpsilonSchedule(agent.epsilonSchedule);
+          setAlphaSchedule(agent.alphaSchedule);
+          if (agent instanceof EligibilityTraceAgent) {
+            setLambda(agent.lambda);
+            setTraceKind(agent.traceKind);
+          }
+          if (agent instanceof DynaQAgent) {
+            setPlanning(agent.planning);
+          }
+          setRewardConfig({ ...DEFAULT_REWARDS, ...data.rewards });
+          setDynamics({ ...DEFAULT_DYNAMICS, ...data.dynamics });
+          setShift({ ...DEFAULT_SHIFT, ...data.shift });
+          setObservation({ ...DEFAULT_OBSERVATION, ...data.observation });
+          setEvalEvery(data.evalEvery ?? 0);
 
           setQTableState(data.qTable);
 
-          const activeStart = data.startPos || DEFAULT_START;
-          agentPosInternal.current = { ...activeStart };
+          agentPosInternal.current = envRef.current.getPosition();
           exploredCellsInternal.current = new Set([
             `${activeStart.x},${activeStart.y}`,
           ]);
 
+          historyInternal.current = data.history ?? [];
+          evaluationsInternal.current = data.evaluations ?? [];
+          recorderRef.current.clear();
+          recorderRef.current.shifted = preShiftGridRef.current !== null;
+          (data.recordings ?? []).forEach((r: EpisodeRecording) =>
+            recorderRef.current.add(r)
+          );
+          setReplay(null);
+
           simInternalState.current = {
             episode: s.episode || 1,
             step: 0,
             totalReward: 0,
             epsilon: agentRef.current.epsilon,
             isGoalReached: false,
+            isTrapped: false,
             bestStepCount: s.bestStepCount ?? null,
+            wallHits: 0,
+            lastEval: s.lastEval ?? null,
           };
           syncToUI();
           setIsPlaying(false);
@@ -321,49 +1031,7 @@ const App: React.FC = () => {
         initialStartPos={startPos}
         initialGoalPos={goalPos}
         onSave={(newGrid, newStart, newGoal) => {
-          gridInternal.current = newGrid;
-          setGridState(newGrid);
-          setStartPos(newStart);
-          setGoalPos(newGoal);
-
-          // Reset positions with new start position
-          agentPosInternal.current = { ...newStart };
-          setAgentPosState({ ...newStart });
-
-          // Reset exploration
-          exploredCellsInternal.current = new Set([
-            `${newStart.x},${newStart.y}`,
-          ]);
-          setExploredCellsState(new Set(exploredCellsInternal.current));
-
-          // Reset Agent Knowledge and Traits
-          agentRef.current.resetQTable();
-          agentRef.current.setParameters(
-            DEFAULT_ALPHA,
-            DEFAULT_GAMMA,
-            DEFAULT_EPSILON
-          );
-
-          // Reset UI inputs
-          setAlpha(DEFAULT_ALPHA);
-          setGamma(DEFAULT_GAMMA);
-          setInitialEpsilon(DEFAULT_EPSILON);
-          setSpeedValue(DEFAULT_SPEED);
-
-          const freshState: SimulationState = {
-            episode: 1,
-            step: 0,
-            totalReward: 0,
-            epsilon: DEFAULT_EPSILON,
-            isGoalReached: false,
-            bestStepCount: null,
-          };
-          simInternalState.current = freshState;
-          setSimUIState(freshState);
-
-          setQTableState({});
-          setIsPlaying(false);
-
+          applyLayout(newGrid, newStart, newGoal);
           setView("simulator");
         }}
         onCancel={() => setView("simulator")}
@@ -371,6 +1039,20 @@ const App: React.FC = () => {
     );
   }
 
+  if (view === "compare") {
+    return (
+      <ComparisonView
+        grid={gridState}
+        startPos={startPos}
+        goalPos={goalPos}
+        rewards={rewardConfig}
+        dynamics={dynamics}
+        observation={observation}
+        onBack={() => setView("simulator")}
+      />
+    );
+  }
+
   return (
     <div className="flex flex-col md:flex-row h-screen w-screen bg-gray-950 text-gray-100 font-mono">
       <div className="w-full md:w-80 p-6 bg-gray-900 border-r border-gray-800 flex flex-col gap-6 shadow-2xl z-10 overflow-y-auto custom-scrollbar relative">
@@ -440,18 +1122,224 @@ const App: React.FC = () => {
                 </p>
               </div>
             </div>
+            <div className="bg-gray-900 p-2 rounded px-4 border border-fuchsia-500/20 space-y-1">
+              <div className="flex justify-between items-center">
+                <p className="text-[9px] text-gray-500 uppercase flex items-center gap-1">
+                  <Route className="w-2.5 h-2.5 text-fuchsia-400" /> Optimal
+                </p>
+                <button
+                  onClick={() => setShowOptimalPath(!showOptimalPath)}
+                  disabled={!optimal}
+                  className={`text-[9px] uppercase font-bold px-2 py-0.5 rounded border transition-all disabled:opacity-40 ${
+                    showOptimalPath
+                      ? "bg-fuchsia-500/20 text-fuchsia-300 border-fuchsia-500/50"
+                      : "text-gray-500 border-gray-700 hover:text-gray-300"
+                  }`}
+                >
+                  {showOptimalPath ? "Hide Route" : "Show Route"}
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-1 text-center">
+                <div>
+                  <p className="text-[8px] text-gray-500 uppercase">Optimal</p>
+                  <p className="text-xs font-bold text-fuchsia-300">
+                    {optimal ? optimal.distance : "---"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[8px] text-gray-500 uppercase">Agent Best</p>
+                  <p className="text-xs font-bold text-yellow-400">
+                    {simUIState.bestStepCount ?? "---"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[8px] text-gray-500 uppercase">Gap</p>
+                  <p
+                    className={`text-xs font-bold ${
+                      gap === null
+                        ? "text-gray-500"
+                        : gap <= 0
+                          ? "text-green-400"
+                          : "text-red-400"
+                    }`}
+                  >
+                    {gap === null ? "---" : gap > 0 ? `+${gap}` : `${gap}`}
+                  </p>
+                </div>
+              </div>
+              {!pathSolver.exact ? (
+                <p className="text-[9px] text-gray-500">
+                  Doors, gates and patrols depend on keys and timing, so no optimum is computed.
+                </p>
+              ) : (
+                !optimal &&
+                gridState.length > 0 && (
+                  <p className="text-[9px] text-red-400">
+                    The goal cannot be reached from the start.
+                  </p>
+                )
+              )}
+              {optimal && otherEndings && (
+                <p className="text-[9px] text-gray-500">
+                  Extra goals and collectibles can end an episode too, so the best is not compared with the optimum.
+                </p>
+              )}
+            </div>
+            <div className="bg-gray-900 p-2 rounded px-4 border border-emerald-500/20 space-y-1">
+              <div className="flex justify-between items-center">
+                <p className="text-[9px] text-gray-500 uppercase flex items-center gap-1">
+                  <Gauge className="w-2.5 h-2.5 text-emerald-400" /> Greedy
+                  Eval
+                </p>
+                <button
+                  onClick={() => {
+                    evaluatePolicy();
+                    syncToUI();
+                  }}
+                  disabled={trainProgress !== null}
+                  className="text-[9px] uppercase font-bold px-2 py-0.5 rounded border text-emerald-300 border-emerald-500/50 hover:bg-emerald-500/20 transition-all disabled:opacity-40"
+                  title="Run one episode with ε = 0 and no learning"
+                >
+                  Evaluate Policy
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-1 text-center">
+                <div>
+                  <p className="text-[8px] text-gray-500 uppercase">Return</p>
+                  <p className="text-xs font-bold text-emerald-300">
+                    {simUIState.lastEval
+                      ? simUIState.lastEval.totalReward.toFixed(1)
+                      : "---"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[8px] text-gray-500 uppercase">Steps</p>
+                  <p
+                    className={`text-xs font-bold ${
+                      !simUIState.lastEval
+                        ? "text-gray-500"
+                        : simUIState.lastEval.success
+                          ? "text-emerald-300"
+                          : "text-red-400"
+                    }`}
+                  >
+                    {simUIState.lastEval
+                      ? `${simUIState.lastEval.steps}${simUIState.lastEval.success ? "" : " ✗"}`
+                      : "---"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[8px] text-gray-500 uppercase">After Ep</p>
+                  <p className="text-xs font-bold text-gray-300">
+                    {simUIState.lastEval?.episode ?? "---"}
+                  </p>
+                </div>
+              </div>
+              <label className="flex items-center justify-between text-[9px] text-gray-500 uppercase">
+                Every N episodes (0 = off)
+                <input
+                  type="number"
+                  min="0"
+                  value={evalEvery}
+                  disabled={trainProgress !== null}
+                  onChange={(e) =>
+                    setEvalEvery(Math.max(0, parseInt(e.target.value) || 0))
+                  }
+                  className="w-16 px-2 py-0.5 bg-gray-800 border border-gray-700 rounded text-emerald-300 text-xs focus:outline-none focus:border-emerald-500 disabled:cursor-not-allowed"
+                />
+              </label>
+            </div>
           </div>
 
+          <LearningCurves
+            history={historyState}
+            evaluations={evaluationsState}
+          />
+
+          {shift.enabled && (
+            <AdaptationChart
+              history={historyState}
+              shiftEpisode={shift.episode}
+              optima={shiftOptima}
+            />
+          )}
+
+          <ReplayPanel
+            recordings={recordingsState}
+            best={recorderRef.current.getBest()}
+            selection={replay}
+            frame={replayFrame}
+            totalFrames={replayLength}
+            playing={isReplayPlaying}
+            onSelect={selectReplay}
+            onFrameChange={(frame) => {
+              setIsReplayPlaying(false);
+              setReplayFrame(frame);
+            }}
+            onTogglePlay={() => {
+              if (!isReplayPlaying && replayFrame >= replayLength - 1) {
+                setReplayFrame(0);
+              }
+              setIsReplayPlaying(!isReplayPlaying);
+            }}
+          />
+
+          <OverlaySettings
+            toggles={[
+              {
+                label: "Policy Arrows",
+                description:
+                  "Greedy action per cell, fading with the Q-value margin. Orange marks ties.",
+                active: showPolicy,
+                onChange: setShowPolicy,
+              },
+              {
+                label: "Eligibility Traces",
+                description:
+                  "How much credit each recent cell still gets from the next TD error. Q(λ) and SARSA(λ) only.",
+                active: showTraces,
+                onChange: setShowTraces,
+              },
+              {
+                label: "Agent View",
+                description:
+                  "Neighbours the agent reads (green open, red blocked), its goal compass, and in purple every cell that looks the same.",
+                active: showView,
+                onChange: setShowView,
+              },
+            ]}
+          />
+
           <div className="space-y-2">
             <button
               onClick={() => {
                 setIsPlaying(false);
+                stopBatchTraining();
                 setView("designer");
               }}
               className="w-full flex items-center justify-center gap-2 py-3 bg-gray-800 hover:bg-gray-700 border border-gray-700 text-cyan-400 rounded-lg font-bold transition-all uppercase text-xs tracking-widest"
             >
               <Edit3 className="w-4 h-4" /> Edit Maze Layout
             </button>
+            <button
+              onClick={() => {
+                setIsPlaying(false);
+                setShowNewMaze(true);
+              }}
+              className="w-full flex items-center justify-center gap-2 py-3 bg-gray-800 hover:bg-gray-700 border border-gray-700 text-cyan-400 rounded-lg font-bold transition-all uppercase text-xs tracking-widest"
+            >
+              <Grid3x3 className="w-4 h-4" /> New Maze
+            </button>
+            <button
+              onClick={() => {
+                setIsPlaying(false);
+                stopBatchTraining();
+                setView("compare");
+              }}
+              className="w-full flex items-center justify-center gap-2 py-3 bg-gray-800 hover:bg-gray-700 border border-gray-700 text-cyan-400 rounded-lg font-bold transition-all uppercase text-xs tracking-widest"
+            >
+              <Users className="w-4 h-4" /> Compare Agents
+            </button>
           </div>
 
           <div
@@ -507,9 +1395,70 @@ const App: React.FC = () => {
                   <b className="text-white">ε (Curiosity):</b> Chance of random
                   exploration moves.
                 </p>
+                <p>
+                  <b className="text-white">λ (Trace Decay):</b> How far back
+                  along the path each reward is credited.
+                </p>
+                {ALGORITHMS.map((option) => (
+                  <p key={option.id}>
+                    <b className="text-white">{option.label}:</b>{" "}
+                    {option.description}
+                  </p>
+                ))}
               </div>
             )}
             <div className="space-y-4">
+              <div className="space-y-1.5">
+                <div className="flex justify-between text-[10px]">
+                  <span className="text-gray-400">Algorithm</span>
+                </div>
+                <select
+                  disabled={isLocked}
+                  value={algorithm}
+                  onChange={(e) => setAlgorithm(e.target.value as Algorithm)}
+                  className="w-full px-2 py-1.5 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+                >
+                  {ALGORITHMS.map((option) => (
+                    <option key={option.id} value={option.id}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {TRACE_ALGORITHMS.includes(algorithm) && (
+                <div className="space-y-1.5">
+                  <div className="flex justify-between text-[10px]">
+                    <span className="text-gray-400">λ</span>
+                    <span className="text-cyan-400">{lambda.toFixed(2)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    disabled={isLocked}
+                    value={lambda}
+                    onChange={(e) => setLambda(parseFloat(e.target.value))}
+                    className="w-full h-1.5 bg-cyan-900 accent-cyan-400 rounded-lg appearance-none cursor-pointer"
+                  />
+                  <select
+                    disabled={isLocked}
+                    value={traceKind}
+                    onChange={(e) => setTraceKind(e.target.value as TraceKind)}
+                    title={
+                      TRACE_KINDS.find((kind) => kind.id === traceKind)
+                        ?.description
+                    }
+                    className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+                  >
+                    {TRACE_KINDS.map((kind) => (
+                      <option key={kind.id} value={kind.id}>
+                        {kind.label} traces
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="space-y-1.5">
                 <div className="flex justify-between text-[10px]">
                   <span className="text-gray-400">α</span>
@@ -562,9 +1511,87 @@ const App: React.FC = () => {
                   className="w-full h-1.5 bg-cyan-900 accent-cyan-400 rounded-lg appearance-none cursor-pointer"
                 />
               </div>
+              <div className="space-y-1.5">
+                <div className="flex justify-between text-[10px]">
+                  <span className="text-gray-400">Seed</span>
+                  <span className="text-gray-500">same seed, same run</span>
+                </div>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    max={SEED_RANGE - 1}
+                    disabled={isLocked}
+                    value={agentSeed}
+                    onChange={(e) => setAgentSeed(parseSeed(e.target.value))}
+                    className="flex-1 min-w-0 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+                  />
+                  <button
+                    disabled={isLocked}
+                    onClick={() => setAgentSeed(randomSeed())}
+                    className="px-2 bg-gray-900 hover:bg-gray-700 border border-gray-700 rounded text-gray-300 disabled:cursor-not-allowed"
+                    title="Random seed"
+                  >
+                    <Dices className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              </div>
             </div>
           </div>
 
+          {algorithm === "dyna-q" && (
+            <PlanningSettings
+              config={planning}
+              disabled={isLocked}
+              onChange={setPlanning}
+              planningUpdates={planningStats.updates}
+              modelSize={planningStats.modelSize}
+              modelCapacity={modelCapacity}
+            />
+          )}
+
+          <ScheduleSettings
+            epsilonSchedule={epsilonSchedule}
+            alphaSchedule={alphaSchedule}
+            initialEpsilon={initialEpsilon}
+            initialAlpha={alpha}
+            disabled={isLocked}
+            onEpsilonChange={setEpsilonSchedule}
+            onAlphaChange={setAlphaSchedule}
+          />
+
+          <ExplorationSettings
+            config={exploration}
+            disabled={isLocked}
+            onChange={setExploration}
+          />
+
+          <RewardSettings
+            config={rewardConfig}
+            disabled={isLocked}
+            onChange={setRewardConfig}
+          />
+
+          <DynamicsSettings
+            config={dynamics}
+            disabled={isLocked}
+            onChange={setDynamics}
+          />
+
+          <ShiftSettings
+            config={shift}
+            disabled={isLocked}
+            onChange={setShift}
+            applied={preShiftGridRef.current !== null}
+            refused={shiftRefused}
+          />
+
+          <ObservationSettings
+            config={observation}
+            disabled={isLocked}
+            onChange={setObservation}
+          />
+
           <div className="space-y-3 pt-2">
             <label className="text-xs text-gray-400 uppercase font-bold flex justify-between items-center">
               <span className="flex items-center gap-2">
@@ -589,7 +1616,8 @@ const App: React.FC = () => {
           <div className="flex gap-2 pt-2">
             <button
               onClick={() => setIsPlaying(!isPlaying)}
-              className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-lg font-bold transition-all ${
+              disabled={trainProgress !== null}
+              className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-lg font-bold transition-all disabled:opacity-50 ${
                 isPlaying
                   ? "bg-red-500/20 text-red-400 border border-red-500/50"
                   : "bg-cyan-600 text-white hover:bg-cyan-500"
@@ -610,6 +1638,24 @@ const App: React.FC = () => {
               <RotateCcw className="w-4 h-4" />
             </button>
           </div>
+
+          <BatchTrainingPanel
+            episodes={batchEpisodes}
+            progress={trainProgress}
+            onEpisodesChange={setBatchEpisodes}
+            onStart={startBatchTraining}
+            onCancel={stopBatchTraining}
+          />
+
+          <TransferPanel
+            config={transferConfig}
+            encoder={observation.encoder}
+            progress={transferProgress}
+            report={transferReport}
+            onChange={setTransferConfig}
+            onStart={startTransfer}
+            onCancel={stopTransfer}
+          />
         </div>
 
         <div className="space-y-4">
@@ -640,14 +1686,67 @@ const App: React.FC = () => {
         </div>
       </div>
 
+      {showNewMaze && (
+        <NewMazeDialog
+          initialConfig={mazeConfig}
+          onGenerate={(config) => {
+            setShowNewMaze(false);
+            generateMaze(config);
+          }}
+          onCancel={() => setShowNewMaze(false)}
+        />
+      )}
+
       <div className="flex-1 relative bg-black">
         <MazeScene
-          grid={gridState}
-          agentPos={agentPosState}
+          grid={replay ? layoutOf(replay.primary) : gridState}
+          agentPos={
+            replayTracks ? replayAt(replayTracks.primary) : agentPosState
+          }
           goalPos={goalPos}
           qTable={qTableState}
-          exploredCells={exploredCellsState}
+          exploredCells={replayTracks ? replayTrail : exploredCellsState}
+          otherAgents={
+            replayTracks?.ghost
+              ? [{ pos: replayAt(replayTracks.ghost), color: REPLAY_GHOST_COLOR }]
+              : []
+          }
+          optimalPath={showOptimalPath ? optimal?.path : undefined}
+          showPolicy={showPolicy}
+          step={replayTracks ? replayFrame : simUIState.step}
+          traces={showTraces && !replayTracks ? traceState : undefined}
+          observation={observation}
+          showView={showView && !replayTracks}
+          inspectedCell={inspectedCell}
+          onCellHover={setHoveredCell}
+          onCellSelect={setPinnedCell}
         />
+        {inspectedCell && inspectedKey && (
+          <div className="absolute bottom-4 left-4">
+            <QInspector
+              cell={inspectedCell}
+              qValues={agentRef.current.qTable[inspectedKey]}
+              visits={agentRef.current.visitCounts[inspectedKey] ?? 0}
+              lastTdError={agentRef.current.lastTdErrors[inspectedKey] ?? null}
+              pinned={pinnedCell !== null}
+              onClose={() => setPinnedCell(null)}
+            />
+          </div>
+        )}
+        {replay && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 bg-black/60 backdrop-blur border border-white/10 rounded flex items-center gap-3 text-[10px] uppercase font-bold">
+            <span className="flex items-center gap-1.5 text-cyan-300">
+              <div className="w-2 h-2 bg-[#00f6ff] rounded-full" /> Replay ep{" "}
+              {replay.primary.episode} ({replay.primary.steps} steps)
+            </span>
+            {replay.ghost && (
+              <span className="flex items-center gap-1.5 text-orange-300">
+                <div className="w-2 h-2 bg-[#fb923c] rounded-full" /> vs ep{" "}
+                {replay.ghost.episode} ({replay.ghost.steps} steps)
+              </span>
+            )}
+          </div>
+        )}
         {simUIState.step >= MAX_STEPS * 0.9 && (
           <div className="absolute top-20 left-1/2 -translate-x-1/2 px-4 py-2 bg-red-950/80 border border-red-500 rounded flex items-center gap-3 text-red-400 text-xs animate-pulse">
             <AlertTriangle className="w-4 h-4" /> Runner is lost! Resetting...
@@ -663,6 +1762,20 @@ const App: React.FC = () => {
             <div className="w-2 h-2 bg-[#ffde00] rounded-full" /> Goal (
             {goalPos.x},{goalPos.y})
           </div>
+          {extraGoals.map((cell, i) => (
+            <div
+              key={`${cell.x},${cell.y}`}
+              className="flex items-center gap-2 px-3 py-1 bg-black/50 backdrop-blur rounded text-[9px] border border-white/10 uppercase font-bold"
+            >
+              <div
+                className="w-2 h-2 rounded-full"
+                style={{ backgroundColor: goalColor(i) }}
+              />{" "}
+              Goal {i + 2} ({cell.x},{cell.y}) ·{" "}
+              {cell.reward ?? rewardConfig.goalReward}
+              {cell.terminal === false && " once"}
+            </div>
+          ))}
         </div>
       </div>
     </div>
@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import { Activity } from 'lucide-react';
+import { EpisodeRecord } from '../types';
+import { ADAPTATION_TOLERANCE, ShiftOptima, measureAdaptation } from '../services/EnvironmentEvents';
+
+interface AdaptationChartProps {
+  history: EpisodeRecord[];
+  shiftEpisode: number;
+  // Null when either layout has no known optimal route
+  optima: ShiftOptima | null;
+}
+
+const CHART_WIDTH = 260;
+const CHART_HEIGHT = 56;
+// Episodes averaged both for the pre-shift baseline and for the curve
+const WINDOW = 20;
+
+export const AdaptationChart: React.FC<AdaptationChartProps> = ({ history, shiftEpisode, optima }) => {
+  const { baseline, target, curve, shiftIndex, recoveredAfter } = useMemo(
+    () => measureAdaptation(history, shiftEpisode, WINDOW, optima),
+    [history, shiftEpisode, optima]
+  );
+
+  const max = Math.max(1, ...curve, baseline ?? 0, target ?? 0);
+  const stepX = curve.length > 1 ? CHART_WIDTH / (curve.length - 1) : 0;
+  const toY = (v: number) => (CHART_HEIGHT - (v / max) * CHART_HEIGHT).toFixed(1);
+  const points = curve.map((v, i) => `${(i * stepX).toFixed(1)},${toY(v)}`).join(' ');
+  const shifted = curve.length > shiftIndex;
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex justify-between items-center text-xs text-gray-400 uppercase font-bold">
+        <span>Re-adaptation</span>
+        <Activity className="w-3 h-3" />
+      </div>
+      {!shifted ? (
+        <p className="text-[10px] text-gray-500">The maze shifts at episode {shiftEpisode}; recovery is tracked from there.</p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+            preserveAspectRatio="none"
+            className="w-full h-14 bg-gray-900 rounded"
+          >
+            {baseline !== null && (
+              <line x1={0} x2={shiftIndex * stepX} y1={toY(baseline)} y2={toY(baseline)} stroke="#facc15" strokeDasharray="3 3" strokeWidth={1} />
+            )}
+            {target !== null && (
+              <line x1={shiftIndex * stepX} x2={CHART_WIDTH} y1={toY(target)} y2={toY(target)} stroke="#facc15" strokeDasharray="3 3" strokeWidth={1} />
+            )}
+            <line x1={shiftIndex * stepX} x2={shiftIndex * stepX} y1={0} y2={CHART_HEIGHT} stroke="#f43f5e" strokeWidth={1} />
+            <polyline points={points} fill="none" stroke="#4ade80" strokeWidth={1.5} />
+          </svg>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-gray-900 p-1.5 rounded">
+              <p className="text-[8px] text-gray-500 uppercase">Baseline Steps</p>
+              <p className="text-xs font-bold text-yellow-400">{baseline === null ? '—' : baseline.toFixed(0)}</p>
+            </div>
+            <div className="bg-gray-900 p-1.5 rounded">
+              <p className="text-[8px] text-gray-500 uppercase">Target Steps</p>
+              <p className="text-xs font-bold text-yellow-400">{target === null ? '—' : target.toFixed(0)}</p>
+            </div>
+            <div className="bg-gray-900 p-1.5 rounded">
+              <p className="text-[8px] text-gray-500 uppercase">Recovered After</p>
+              <p className="text-xs font-bold text-green-400">
+                {recoveredAfter === null ? 'Not yet' : `${recoveredAfter} ep`}
+              </p>
+            </div>
+          </div>
+          <p className="text-[9px] text-gray-500 leading-relaxed">
+            {optima
+              ? `${WINDOW}-episode average of steps; recovered once it is back within ${ADAPTATION_TOLERANCE * 100}% of the pre-shift baseline, scaled by the optimal route going from ${optima.before} to ${optima.after} steps.`
+              : `${WINDOW}-episode average of steps. One of the layouts has no known optimal route, so recovery is not measured.`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
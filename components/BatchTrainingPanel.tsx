@@ -0,0 +1,72 @@
+import React from 'react';
+import { FastForward, Square } from 'lucide-react';
+
+export type TrainProgress = {
+  completed: number;
+  total: number;
+};
+
+interface BatchTrainingPanelProps {
+  episodes: number;
+  progress: TrainProgress | null;
+  onEpisodesChange: (episodes: number) => void;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+export const BatchTrainingPanel: React.FC<BatchTrainingPanelProps> = ({
+  episodes,
+  progress,
+  onEpisodesChange,
+  onStart,
+  onCancel
+}) => {
+  const isTraining = progress !== null;
+  const percent = progress ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex justify-between items-center text-xs text-gray-400 uppercase font-bold">
+        <span>Instant Training</span>
+        <FastForward className="w-3 h-3" />
+      </div>
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min="1"
+          max="100000"
+          step="50"
+          disabled={isTraining}
+          value={episodes}
+          onChange={(e) => onEpisodesChange(Math.max(1, parseInt(e.target.value) || 1))}
+          className="w-24 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500"
+        />
+        {isTraining ? (
+          <button
+            onClick={onCancel}
+            className="flex-1 flex items-center justify-center gap-2 py-1 text-[10px] font-bold rounded bg-red-500/20 text-red-400 border border-red-500/50 uppercase"
+          >
+            <Square className="w-3 h-3" /> Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onStart}
+            className="flex-1 flex items-center justify-center gap-2 py-1 text-[10px] font-bold rounded bg-cyan-600 hover:bg-cyan-500 text-white uppercase"
+          >
+            <FastForward className="w-3 h-3" /> Train {episodes} Episodes
+          </button>
+        )}
+      </div>
+      {progress && (
+        <div className="space-y-1">
+          <div className="h-1.5 bg-gray-900 rounded overflow-hidden">
+            <div className="h-full bg-cyan-400 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-[9px] text-gray-500 uppercase">
+            {progress.completed} / {progress.total} episodes
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
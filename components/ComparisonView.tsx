@@ -0,0 +1,354 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ArrowLeft, Columns2, Layers, Pause, Play, Plus, RotateCcw, Trash2, Trophy, Users, Zap } from 'lucide-react';
+import { MazeScene } from './MazeScene';
+import { EpisodeRunner, CONVERGENCE_WINDOW } from '../services/EpisodeRunner';
+import { ALGORITHMS, createAgent } from '../services/AgentFactory';
+import { Algorithm, DynamicsConfig, MazeCell, ObservationConfig, Position, QTable, RewardConfig, RunnerStats } from '../types';
+
+interface ComparisonViewProps {
+  grid: MazeCell[][];
+  startPos: Position;
+  goalPos: Position;
+  rewards: RewardConfig;
+  dynamics: DynamicsConfig;
+  observation: ObservationConfig;
+  onBack: () => void;
+}
+
+type ContenderConfig = {
+  algorithm: Algorithm;
+  alpha: number;
+  gamma: number;
+  epsilon: number;
+};
+
+type ContenderSnapshot = {
+  stats: RunnerStats;
+  pos: Position;
+  qTable: QTable;
+};
+
+type Layout = 'split' | 'overlay';
+
+const MIN_CONTENDERS = 2;
+const MAX_CONTENDERS = 4;
+const CONTENDER_COLORS = ['#00f6ff', '#ff4dd2', '#7cff4d', '#ff9f1c'];
+const DEFAULT_CONTENDERS: ContenderConfig[] = [
+  { algorithm: 'q-learning', alpha: 0.1, gamma: 0.9, epsilon: 0.2 },
+  { algorithm: 'sarsa', alpha: 0.1, gamma: 0.9, epsilon: 0.2 },
+];
+const DEFAULT_SPEED = 400;
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ grid, startPos, goalPos, rewards, dynamics, observation, onBack }) => {
+  const runnersRef = useRef<EpisodeRunner[] | null>(null);
+  const [configs, setConfigs] = useState<ContenderConfig[]>(DEFAULT_CONTENDERS);
+  const [snapshots, setSnapshots] = useState<ContenderSnapshot[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speedValue, setSpeedValue] = useState(DEFAULT_SPEED);
+  const [layout, setLayout] = useState<Layout>('split');
+  const [focusIndex, setFocusIndex] = useState(0);
+
+  const isLocked = snapshots.length > 0;
+
+  const sync = useCallback(() => {
+    const runners = runnersRef.current ?? [];
+    setSnapshots(runners.map(runner => ({
+      stats: { ...runner.stats },
+      pos: runner.getPosition(),
+      qTable: { ...runner.agent.qTable },
+    })));
+  }, []);
+
+  const ensureRunners = () => {
+    if (runnersRef.current) return;
+    runnersRef.current = configs.map(config =>
+      new EpisodeRunner(
+        createAgent(config.algorithm, config.alpha, config.gamma, config.epsilon),
+        grid,
+        startPos,
+        goalPos,
+        rewards,
+        undefined,
+        dynamics,
+        observation
+      )
+    );
+    sync();
+  };
+
+  const reset = () => {
+    setIsPlaying(false);
+    runnersRef.current = null;
+    setSnapshots([]);
+  };
+
+  // All contenders take exactly one environment step per lockstep tick
+  const tickAll = useCallback(() => {
+    runnersRef.current?.forEach(runner => runner.tick());
+  }, []);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let interval: number;
+    if (speedValue < 500) {
+      interval = window.setInterval(() => {
+        tickAll();
+        sync();
+      }, Math.max(1, 500 - speedValue));
+    } else {
+      interval = window.setInterval(() => {
+        for (let i = 0; i < 30; i++) tickAll();
+        sync();
+      }, 16);
+    }
+    return () => clearInterval(interval);
+  }, [isPlaying, speedValue, tickAll, sync]);
+
+  const updateConfig = (index: number, patch: Partial<ContenderConfig>) => {
+    setConfigs(current => current.map((config, i) => (i === index ? { ...config, ...patch } : config)));
+  };
+
+  const fastestConvergence = snapshots.reduce<number | null>((best, { stats }) => {
+    if (stats.convergedAt === null) return best;
+    return best === null ? stats.convergedAt : Math.min(best, stats.convergedAt);
+  }, null);
+
+  const focused = snapshots[Math.min(focusIndex, snapshots.length - 1)];
+  const labelFor = (algorithm: Algorithm) => ALGORITHMS.find(a => a.id === algorithm)?.label ?? algorithm;
+
+  return (
+    <div className="flex flex-col md:flex-row h-screen w-screen bg-gray-950 text-gray-100 font-mono">
+      <div className="w-full md:w-96 p-6 bg-gray-900 border-r border-gray-800 flex flex-col gap-6 shadow-2xl z-10 overflow-y-auto custom-scrollbar">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Users className="w-8 h-8 text-cyan-400" />
+            <h1 className="text-xl font-bold tracking-tight uppercase">Compare</h1>
+          </div>
+          <button
+            onClick={() => {
+              reset();
+              onBack();
+            }}
+            className="p-2 hover:bg-gray-800 rounded-lg text-gray-500 hover:text-white transition-all"
+            title="Back to Simulator"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {configs.map((config, index) => (
+            <div
+              key={index}
+              className={`p-3 rounded-lg border space-y-2 ${isLocked ? 'bg-gray-900/50 border-gray-800 opacity-80' : 'bg-gray-800 border-gray-700'}`}
+              style={{ borderLeft: `3px solid ${CONTENDER_COLORS[index]}` }}
+            >
+              <div className="flex items-center gap-2">
+                <select
+                  disabled={isLocked}
+                  value={config.algorithm}
+                  onChange={(e) => updateConfig(index, { algorithm: e.target.value as Algorithm })}
+                  className="flex-1 px-2 py-1 bg-gray-900 border border-gray-700 rounded text-xs focus:outline-none focus:border-cyan-500"
+                  style={{ color: CONTENDER_COLORS[index] }}
+                >
+                  {ALGORITHMS.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+                {configs.length > MIN_CONTENDERS && !isLocked && (
+                  <button
+                    onClick={() => setConfigs(current => current.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-500 hover:text-red-400"
+                    title="Remove agent"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                {(['alpha', 'gamma', 'epsilon'] as const).map(key => (
+                  <label key={key} className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase">
+                    {key === 'alpha' ? 'α' : key === 'gamma' ? 'γ' : 'ε'}
+                    <input
+                      type="number"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      disabled={isLocked}
+                      value={config[key]}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        if (!isNaN(value)) updateConfig(index, { [key]: Math.min(1, Math.max(0, value)) });
+                      }}
+                      className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          {configs.length < MAX_CONTENDERS && !isLocked && (
+            <button
+              onClick={() => setConfigs(current => [...current, { ...current[current.length - 1] }])}
+              className="w-full flex items-center justify-center gap-2 py-2 text-[10px] font-bold rounded bg-gray-800 border border-dashed border-gray-700 text-gray-400 hover:text-cyan-400 uppercase"
+            >
+              <Plus className="w-3 h-3" /> Add Agent
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <label className="text-xs text-gray-400 uppercase font-bold flex justify-between items-center">
+            <span className="flex items-center gap-2">
+              <Zap className="w-3 h-3" /> Speed
+            </span>
+            <span className="text-[10px] text-cyan-300">
+              {speedValue >= 500 ? 'WARP' : `${Math.max(1, 500 - speedValue)}ms`}
+            </span>
+          </label>
+          <input
+            type="range"
+            min="0"
+            max="500"
+            value={speedValue}
+            onChange={(e) => setSpeedValue(parseInt(e.target.value))}
+            className="w-full h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+          />
+          <div className="flex gap-2">
+            <button
+              onClick={() => {
+                ensureRunners();
+                setIsPlaying(!isPlaying);
+              }}
+              className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-lg font-bold transition-all ${
+                isPlaying
+                  ? 'bg-red-500/20 text-red-400 border border-red-500/50'
+                  : 'bg-cyan-600 text-white hover:bg-cyan-500'
+              }`}
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {isPlaying ? 'PAUSE' : 'RUN'}
+            </button>
+            <button
+              onClick={reset}
+              className="px-4 py-3 rounded-lg bg-gray-800 border border-gray-700 hover:bg-gray-700 transition-colors text-gray-400"
+              title="Reset Comparison"
+            >
+              <RotateCcw className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 bg-gray-800 rounded-lg border border-gray-700 space-y-2">
+          <div className="flex justify-between items-center text-xs text-gray-400 uppercase font-bold">
+            <span>Shared Stats</span>
+            <Trophy className="w-3 h-3" />
+          </div>
+          <table className="w-full text-[10px]">
+            <thead className="text-gray-500 uppercase text-[9px]">
+              <tr>
+                <th className="text-left font-normal py-1">Agent</th>
+                <th className="text-right font-normal">Ep</th>
+                <th className="text-right font-normal">Best</th>
+                <th className="text-right font-normal">Greedy</th>
+                <th className="text-right font-normal">Conv.</th>
+              </tr>
+            </thead>
+            <tbody>
+              {configs.map((config, index) => {
+                const stats = snapshots[index]?.stats;
+                const isFastest = stats?.convergedAt != null && stats.convergedAt === fastestConvergence;
+                return (
+                  <tr
+                    key={index}
+                    onClick={() => setFocusIndex(index)}
+                    className={`cursor-pointer ${focusIndex === index ? 'bg-gray-900' : ''}`}
+                  >
+                    <td className="py-1 pl-1" style={{ color: CONTENDER_COLORS[index] }}>
+                      {labelFor(config.algorithm)}
+                    </td>
+                    <td className="text-right">{stats?.episode ?? '-'}</td>
+                    <td className="text-right text-yellow-400">{stats?.bestStepCount ?? '---'}</td>
+                    <td className="text-right">{stats?.greedyPathLength ?? '---'}</td>
+                    <td className={`text-right pr-1 ${isFastest ? 'text-green-400 font-bold' : ''}`}>
+                      {stats?.convergedAt ?? '---'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-[9px] text-gray-500 leading-relaxed">
+            Converged = first episode after which the greedy path stayed the same for {CONVERGENCE_WINDOW} episodes.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 relative bg-black flex flex-col">
+        <div className="absolute top-4 right-4 z-10 flex gap-1 bg-black/50 backdrop-blur rounded p-1 border border-white/10">
+          <button
+            onClick={() => setLayout('split')}
+            className={`p-1.5 rounded ${layout === 'split' ? 'bg-cyan-600 text-white' : 'text-gray-400'}`}
+            title="Split views"
+          >
+            <Columns2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setLayout('overlay')}
+            className={`p-1.5 rounded ${layout === 'overlay' ? 'bg-cyan-600 text-white' : 'text-gray-400'}`}
+            title="Overlay agents"
+          >
+            <Layers className="w-4 h-4" />
+          </button>
+        </div>
+
+        {layout === 'split' ? (
+          <div className={`flex-1 grid gap-px bg-gray-800 ${configs.length > 2 ? 'grid-cols-2 grid-rows-2' : 'grid-cols-2'}`}>
+            {configs.map((config, index) => {
+              const snapshot = snapshots[index];
+              return (
+                <div key={index} className="relative bg-black">
+                  <MazeScene
+                    grid={grid}
+                    agentPos={snapshot?.pos ?? startPos}
+                    goalPos={goalPos}
+                    qTable={snapshot?.qTable ?? {}}
+                    exploredCells={new Set()}
+                    step={snapshot?.stats.step}
+                    observation={observation}
+                    agentColor={CONTENDER_COLORS[index]}
+                  />
+                  <div
+                    className="absolute top-2 left-2 px-2 py-0.5 bg-black/60 rounded text-[9px] uppercase font-bold border"
+                    style={{ color: CONTENDER_COLORS[index], borderColor: CONTENDER_COLORS[index] }}
+                  >
+                    {labelFor(config.algorithm)} · α {config.alpha} · γ {config.gamma} · ε {config.epsilon}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="flex-1 relative">
+            <MazeScene
+              grid={grid}
+              agentPos={focused?.pos ?? startPos}
+              goalPos={goalPos}
+              qTable={focused?.qTable ?? {}}
+              exploredCells={new Set()}
+              step={focused?.stats.step}
+              observation={observation}
+              agentColor={CONTENDER_COLORS[focusIndex]}
+              otherAgents={snapshots
+                .map((snapshot, index) => ({ pos: snapshot.pos, color: CONTENDER_COLORS[index] }))
+                .filter((_, index) => index !== focusIndex)}
+            />
+            <div className="absolute top-4 left-4 px-3 py-1 bg-black/50 backdrop-blur rounded text-[9px] border border-white/10 uppercase font-bold text-gray-400">
+              Heatmap: <span style={{ color: CONTENDER_COLORS[focusIndex] }}>{labelFor(configs[focusIndex]?.algorithm ?? 'q-learning')}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Snowflake } from 'lucide-react';
+import { DynamicsConfig } from '../types';
+
+interface DynamicsSettingsProps {
+  config: DynamicsConfig;
+  disabled: boolean;
+  onChange: (config: DynamicsConfig) => void;
+}
+
+const SLIDERS: { key: keyof DynamicsConfig; label: string }[] = [
+  { key: 'slipProbability', label: 'Slip (everywhere)' },
+  { key: 'iceSlipProbability', label: 'Slip on ice' },
+];
+
+export const DynamicsSettings: React.FC<DynamicsSettingsProps> = ({ config, disabled, onChange }) => {
+  return (
+    <div className={`p-4 rounded-lg border transition-all ${
+      disabled
+        ? 'bg-gray-900/50 border-gray-800 opacity-80'
+        : 'bg-gray-800 border-cyan-900/50 shadow-inner shadow-cyan-950'
+    }`}>
+      <div className="flex items-center gap-2 text-xs text-gray-400 uppercase font-bold mb-3">
+        <Snowflake className="w-3 h-3" />
+        <span>Floor Dynamics</span>
+      </div>
+      <div className="space-y-3">
+        {SLIDERS.map(({ key, label }) => (
+          <div key={key} className="space-y-1.5">
+            <div className="flex justify-between text-[10px]">
+              <span className="text-gray-400">{label}</span>
+              <span className="text-cyan-400">{Math.round(config[key] * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              disabled={disabled}
+              value={config[key]}
+              onChange={(e) => onChange({ ...config, [key]: parseFloat(e.target.value) })}
+              className="w-full h-1.5 bg-cyan-900 accent-cyan-400 rounded-lg appearance-none cursor-pointer"
+            />
+          </div>
+        ))}
+      </div>
+      <p className="mt-3 text-[9px] text-gray-500 leading-relaxed">
+        A slipped move goes sideways or stays put instead. Paint ice tiles in the maze editor.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Compass } from 'lucide-react';
+import { ExplorationConfig, ExplorationStrategy } from '../types';
+import { EXPLORATION_STRATEGIES } from '../services/ExplorationPolicies';
+
+interface ExplorationSettingsProps {
+  config: ExplorationConfig;
+  disabled: boolean;
+  onChange: (config: ExplorationConfig) => void;
+}
+
+type NumericKey = Exclude<keyof ExplorationConfig, 'strategy'>;
+
+const FIELDS: { key: NumericKey; label: string; step: number; strategies?: ExplorationStrategy[] }[] = [
+  { key: 'temperature', label: 'Temperature', step: 1, strategies: ['boltzmann'] },
+  { key: 'minTemperature', label: 'Min Temp', step: 0.1, strategies: ['boltzmann'] },
+  { key: 'temperatureDecay', label: 'Temp Decay', step: 0.001, strategies: ['boltzmann'] },
+  { key: 'ucbC', label: 'UCB c', step: 0.5, strategies: ['ucb1'] },
+  { key: 'initialQ', label: 'Initial Q', step: 10 },
+];
+
+export const ExplorationSettings: React.FC<ExplorationSettingsProps> = ({ config, disabled, onChange }) => {
+  const fields = FIELDS.filter(f => !f.strategies || f.strategies.includes(config.strategy));
+
+  return (
+    <div className={`p-4 rounded-lg border transition-all ${
+      disabled
+        ? 'bg-gray-900/50 border-gray-800 opacity-80'
+        : 'bg-gray-800 border-cyan-900/50 shadow-inner shadow-cyan-950'
+    }`}>
+      <div className="flex items-center gap-2 text-xs text-gray-400 uppercase font-bold mb-3">
+        <Compass className="w-3 h-3" />
+        <span>Exploration</span>
+      </div>
+      <select
+        disabled={disabled}
+        value={config.strategy}
+        onChange={(e) => onChange({ ...config, strategy: e.target.value as ExplorationStrategy })}
+        className="w-full mb-2 px-2 py-1.5 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+      >
+        {EXPLORATION_STRATEGIES.map(option => (
+          <option key={option.id} value={option.id}>{option.label}</option>
+        ))}
+      </select>
+      <p className="mb-3 text-[9px] text-gray-500 leading-relaxed">
+        {EXPLORATION_STRATEGIES.find(option => option.id === config.strategy)?.description}
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {fields.map(({ key, label, step }) => (
+          <label key={key} className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase">
+            {label}
+            <input
+              type="number"
+              step={step}
+              disabled={disabled}
+              value={config[key]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                onChange({ ...config, [key]: isNaN(value) ? 0 : value });
+              }}
+              className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+            />
+          </label>
+        ))}
+      </div>
+      <p className="mt-3 text-[9px] text-gray-500 leading-relaxed">
+        Initial Q above zero makes unseen moves look promising, so even a greedy agent tries them.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { EpisodeRecord, EvalRecord } from '../types';
+import { downsample, movingAverage } from '../services/LearningCurve';
+
+interface LearningCurvesProps {
+  history: EpisodeRecord[];
+  // Greedy evaluations, plotted unsmoothed since each one is already noise-free
+  evaluations: EvalRecord[];
+}
+
+const CHART_WIDTH = 260;
+const CHART_HEIGHT = 56;
+const MAX_POINTS = 300;
+
+const toPolyline = (values: number[], min: number, max: number): string => {
+  const range = max - min || 1;
+  const stepX = values.length > 1 ? CHART_WIDTH / (values.length - 1) : 0;
+  return values
+    .map((v, i) => `${(i * stepX).toFixed(1)},${(CHART_HEIGHT - ((v - min) / range) * CHART_HEIGHT).toFixed(1)}`)
+    .join(' ');
+};
+
+const Chart: React.FC<{ label: string; values: number[]; smoothing: number; color: string; format: (v: number) => string }> = ({
+  label,
+  values,
+  smoothing,
+  color,
+  format
+}) => {
+  const { raw, smooth, min, max } = useMemo(() => {
+    const raw = downsample(values, MAX_POINTS);
+    const smooth = downsample(movingAverage(values, smoothing), MAX_POINTS);
+    const min = Math.min(...raw);
+    const max = Math.max(...raw);
+    return { raw, smooth, min, max };
+  }, [values, smoothing]);
+
+  const latest = smooth[smooth.length - 1];
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[9px] uppercase">
+        <span className="text-gray-500">{label}</span>
+        <span style={{ color }}>{format(latest)}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-14 bg-gray-900 rounded"
+      >
+        <polyline points={toPolyline(raw, min, max)} fill="none" stroke={color} strokeOpacity={0.2} strokeWidth={1} />
+        <polyline points={toPolyline(smooth, min, max)} fill="none" stroke={color} strokeWidth={1.5} />
+      </svg>
+      <div className="flex justify-between text-[8px] text-gray-600">
+        <span>{format(min)}</span>
+        <span>{format(max)}</span>
+      </div>
+    </div>
+  );
+};
+
+export const LearningCurves: React.FC<LearningCurvesProps> = ({ history, evaluations }) => {
+  const [smoothing, setSmoothing] = useState(10);
+
+  const series = useMemo(() => ({
+    reward: history.map(r => r.totalReward),
+    steps: history.map(r => r.steps),
+    epsilon: history.map(r => r.epsilon),
+    greedy: evaluations.map(r => r.totalReward),
+  }), [history, evaluations]);
+
+  const recent = history.slice(-smoothing);
+  const successRate = recent.length ? recent.filter(r => r.success).length / recent.length : 0;
+  const avgWallHits = recent.length ? recent.reduce((sum, r) => sum + r.wallHits, 0) / recent.length : 0;
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex justify-between items-center text-xs text-gray-400 uppercase font-bold">
+        <span>Learning Curves</span>
+        <TrendingUp className="w-3 h-3" />
+      </div>
+      {history.length < 2 ? (
+        <p className="text-[10px] text-gray-500">Curves appear once a few episodes have finished.</p>
+      ) : (
+        <>
+          <Chart label="Reward" values={series.reward} smoothing={smoothing} color="#22d3ee" format={v => v.toFixed(0)} />
+          <Chart label="Steps" values={series.steps} smoothing={smoothing} color="#4ade80" format={v => v.toFixed(0)} />
+          <Chart label="ε" values={series.epsilon} smoothing={smoothing} color="#fb923c" format={v => v.toFixed(3)} />
+          {series.greedy.length > 1 && (
+            <Chart label="Greedy return" values={series.greedy} smoothing={1} color="#6ee7b7" format={v => v.toFixed(0)} />
+          )}
+          <div className="grid grid-cols-2 gap-2 text-center">
+            <div className="bg-gray-900 p-1.5 rounded">
+              <p className="text-[8px] text-gray-500 uppercase">Success (last {recent.length})</p>
+              <p className="text-xs font-bold text-yellow-400">{(successRate * 100).toFixed(0)}%</p>
+            </div>
+            <div className="bg-gray-900 p-1.5 rounded">
+              <p className="text-[8px] text-gray-500 uppercase">Wall Hits / Ep</p>
+              <p className="text-xs font-bold text-red-400">{avgWallHits.toFixed(1)}</p>
+            </div>
+          </div>
+        </>
+      )}
+      <div className="space-y-1">
+        <div className="flex justify-between text-[9px] text-gray-500 uppercase">
+          <span>Smoothing</span>
+          <span className="text-cyan-400">{smoothing} ep</span>
+        </div>
+        <input
+          type="range"
+          min="1"
+          max="100"
+          value={smoothing}
+          onChange={(e) => setSmoothing(parseInt(e.target.value))}
+          className="w-full h-1.5 bg-cyan-900 accent-cyan-400 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 
 import React, { useState, useCallback, useMemo } from 'react';
-import { MazeCell, Position } from '../types';
-import { MousePointer2, Flag, Target, Eraser, CheckCircle2, Info, Trash2, XCircle, AlertTriangle } from 'lucide-react';
+import { Action, CellType, MazeAlgorithm, MazeCell, Position } from '../types';
+import { MousePointer2, Flag, Target, Eraser, CheckCircle2, Info, Trash2, XCircle, AlertTriangle, Dices, Wand2, Snowflake, Footprints, Skull, ArrowUp, Orbit, KeyRound, DoorClosed, Shapes, Crosshair, Coins, Fence, Siren } from 'lucide-react';
+import { MazeGenerator, DEFAULT_MAZE_ALGORITHM } from '../services/MazeGenerator';
+import { MAZE_ALGORITHMS } from '../services/MazeStrategies';
+import { SEED_RANGE, parseSeed, randomSeed } from '../services/SeededRandom';
+import { CELL_TYPES, DEFAULT_PERIOD, DEFAULT_TILE_REWARD, LINK_COLORS, MAX_LINKS, MAX_PICKUPS, cellTypeOf, goalColor, isLinked, isPickup, linkColor } from '../services/CellTypes';
 
 interface MazeDesignerProps {
   initialGrid: MazeCell[][];
@@ -11,7 +15,87 @@ interface MazeDesignerProps {
   onCancel: () => void;
 }
 
-type Tool = 'wall' | 'start' | 'goal' | 'eraser';
+type Tool = 'wall' | 'start' | 'goal' | 'eraser' | Exclude<CellType, 'floor'>;
+
+// Tools that keep painting while the mouse is dragged
+const BRUSH_TOOLS: Tool[] = ['wall', 'ice', 'mud', 'trap', 'eraser'];
+
+// Surfaces the start and goal may sit on; other tiles would block or end the episode there
+const SURFACE_TOOLS: Tool[] = ['ice', 'mud', 'eraser'];
+
+const DIRECTIONS: { action: Action; label: string }[] = [
+  { action: Action.UP, label: 'Up' },
+  { action: Action.RIGHT, label: 'Right' },
+  { action: Action.DOWN, label: 'Down' },
+  { action: Action.LEFT, label: 'Left' },
+];
+
+const TILE_TOOLS: { id: Exclude<CellType, 'floor'>; icon: React.ReactNode; color: string }[] = [
+  { id: 'ice', icon: <Snowflake className="w-5 h-5" />, color: 'bg-sky-600' },
+  { id: 'mud', icon: <Footprints className="w-5 h-5" />, color: 'bg-amber-800' },
+  { id: 'trap', icon: <Skull className="w-5 h-5" />, color: 'bg-red-600' },
+  { id: 'one-way', icon: <ArrowUp className="w-5 h-5" />, color: 'bg-amber-500' },
+  { id: 'teleporter', icon: <Orbit className="w-5 h-5" />, color: 'bg-purple-600' },
+  { id: 'key', icon: <KeyRound className="w-5 h-5" />, color: 'bg-emerald-600' },
+  { id: 'door', icon: <DoorClosed className="w-5 h-5" />, color: 'bg-emerald-800' },
+  { id: 'extra-goal', icon: <Crosshair className="w-5 h-5" />, color: 'bg-pink-600' },
+  { id: 'collectible', icon: <Coins className="w-5 h-5" />, color: 'bg-yellow-600' },
+  { id: 'gate', icon: <Fence className="w-5 h-5" />, color: 'bg-slate-500' },
+  { id: 'patrol', icon: <Siren className="w-5 h-5" />, color: 'bg-red-700' },
+];
+
+const CELL_CLASSES: Partial<Record<CellType, string>> = {
+  ice: 'bg-sky-900',
+  mud: 'bg-amber-950',
+  trap: 'bg-red-900',
+};
+
+// `goalColor` is the cell's colour when it is an extra goal
+const TileIcon: React.FC<{ cell: MazeCell; goalColor: string }> = ({ cell, goalColor }) => {
+  const color = linkColor(cell.link);
+  switch (cellTypeOf(cell)) {
+    case 'ice':
+      return <Snowflake className="w-3 h-3 text-sky-300/70" />;
+    case 'mud':
+      return <Footprints className="w-3 h-3 text-amber-600/80" />;
+    case 'trap':
+      return <Skull className="w-3 h-3 text-red-300" />;
+    case 'one-way':
+      return <ArrowUp className="w-4 h-4 text-amber-400" style={{ transform: `rotate(${(cell.direction ?? Action.UP) * 90}deg)` }} />;
+    case 'teleporter':
+      return <Orbit className="w-3.5 h-3.5" style={{ color }} />;
+    case 'key':
+      return <KeyRound className="w-3.5 h-3.5" style={{ color }} />;
+    case 'door':
+      return (
+        <div className="absolute inset-0 flex items-center justify-center" style={{ backgroundColor: `${color}99` }}>
+          <DoorClosed className="w-3.5 h-3.5 text-white" />
+        </div>
+      );
+    case 'extra-goal':
+      return (
+        <div className="absolute inset-0 flex items-center justify-center" style={{ backgroundColor: `${goalColor}4d` }}>
+          <Crosshair className={`w-4 h-4 ${cell.terminal === false ? 'opacity-60' : ''}`} style={{ color: goalColor }} />
+        </div>
+      );
+    case 'collectible':
+      return <Coins className="w-3.5 h-3.5 text-yellow-400" />;
+    case 'gate':
+      return (
+        <div className="absolute inset-0 flex items-center justify-center bg-slate-500/50">
+          <Fence className="w-3.5 h-3.5 text-slate-200" />
+        </div>
+      );
+    case 'patrol':
+      return (
+        <span className="text-[9px] font-bold" style={{ color }}>
+          {(cell.order ?? 0) + 1}
+        </span>
+      );
+    default:
+      return null;
+  }
+};
 type PendingAction = 'clear' | 'cancel' | null;
 
 export const MazeDesigner: React.FC<MazeDesignerProps> = ({
@@ -30,13 +114,27 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
   const [activeTool, setActiveTool] = useState<Tool>('wall');
   const [isMouseDown, setIsMouseDown] = useState(false);
   const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [algorithm, setAlgorithm] = useState<MazeAlgorithm>(DEFAULT_MAZE_ALGORITHM);
+  const [seed, setSeed] = useState(randomSeed);
+  const [braid, setBraid] = useState(0);
+  const [direction, setDirection] = useState<Action>(Action.RIGHT);
+  const [link, setLink] = useState(0);
+  const [tileReward, setTileReward] = useState(DEFAULT_TILE_REWARD);
+  const [terminal, setTerminal] = useState(true);
+  const [period, setPeriod] = useState(DEFAULT_PERIOD);
 
   // Optimized change tracking
   const hasChanges = useMemo(() => {
     // Check if grid structure differs
     for (let y = 0; y < grid.length; y++) {
       for (let x = 0; x < grid[y].length; x++) {
-        if (grid[y][x].isWall !== initialGrid[y][x].isWall) return true;
+        const cell = grid[y][x];
+        const initial = initialGrid[y][x];
+        if (cell.isWall !== initial.isWall) return true;
+        if (cellTypeOf(cell) !== cellTypeOf(initial)) return true;
+        if (cell.direction !== initial.direction || cell.link !== initial.link) return true;
+        if (cell.reward !== initial.reward || cell.terminal !== initial.terminal) return true;
+        if (cell.period !== initial.period || cell.order !== initial.order) return true;
       }
     }
     // Check start/goal positions
@@ -52,7 +150,7 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
       setGrid(currentGrid => 
         currentGrid.map((row, ry) => 
           row.map((cell, cx) => 
-            (cx === x && ry === y) ? { ...cell, isWall: false } : cell
+            (cx === x && ry === y) ? clearedCell(cell) : cell
           )
         )
       );
@@ -61,31 +159,83 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
       setGrid(currentGrid => 
         currentGrid.map((row, ry) => 
           row.map((cell, cx) => 
-            (cx === x && ry === y) ? { ...cell, isWall: false } : cell
+            (cx === x && ry === y) ? clearedCell(cell) : cell
           )
         )
       );
     } else {
       setGrid(currentGrid => {
         const newGrid = currentGrid.map(row => row.map(cell => ({ ...cell })));
+        const onEndpoint = (x === startPos.x && y === startPos.y) || (x === goalPos.x && y === goalPos.y);
+        if (onEndpoint && !SURFACE_TOOLS.includes(activeTool)) {
+          return currentGrid;
+        }
         if (activeTool === 'wall') {
-          if ((x === startPos.x && y === startPos.y) || (x === goalPos.x && y === goalPos.y)) {
+          newGrid[y][x] = { x, y, isWall: true };
+        } else if (activeTool === 'eraser') {
+          newGrid[y][x] = clearedCell(newGrid[y][x]);
+        } else {
+          const painted: MazeCell = {
+            x,
+            y,
+            isWall: false,
+            cellType: activeTool,
+            ...(activeTool === 'one-way' ? { direction } : {}),
+            ...(isLinked(activeTool) ? { link } : {}),
+            ...(activeTool === 'extra-goal' ? { reward: tileReward, terminal } : {}),
+            ...(activeTool === 'collectible' ? { reward: tileReward } : {}),
+            ...(activeTool === 'gate' || activeTool === 'patrol' ? { period } : {}),
+          };
+          if (activeTool === 'patrol') {
+            // Waypoints are numbered in the order they are clicked
+            const waypoints = currentGrid.flat().filter(c => cellTypeOf(c) === 'patrol' && (c.link ?? 0) === link);
+            if (waypoints.some(c => c.x === x && c.y === y)) return currentGrid;
+            painted.order = Math.max(-1, ...waypoints.map(c => c.order ?? 0)) + 1;
+          }
+          // Every pickup needs a state bit, so stop placing new ones at the cap
+          const pickups = currentGrid.flat().filter(isPickup).length;
+          if (isPickup(painted) && !isPickup(currentGrid[y][x]) && pickups >= MAX_PICKUPS) {
             return currentGrid;
           }
-          newGrid[y][x].isWall = true;
-        } else if (activeTool === 'eraser') {
-          newGrid[y][x].isWall = false;
+          newGrid[y][x] = painted;
         }
         return newGrid;
       });
     }
-  }, [activeTool, startPos, goalPos]);
+  }, [activeTool, startPos, goalPos, direction, link, tileReward, terminal, period]);
+
+  const goalColors = useMemo(() => {
+    const colors = new Map<MazeCell, string>();
+    grid.flat().filter(cell => cellTypeOf(cell) === 'extra-goal').forEach((cell, i) => colors.set(cell, goalColor(i)));
+    return colors;
+  }, [grid]);
+
+  const pickupCount = useMemo(() => grid.flat().filter(isPickup).length, [grid]);
+
+  // Teleporters only work in pairs, so flag any colour with a lone or extra end
+  const unpairedTeleporters = useMemo(() => {
+    const ends = new Array(MAX_LINKS).fill(0);
+    grid.flat().forEach(cell => {
+      if (cellTypeOf(cell) === 'teleporter') ends[cell.link ?? 0]++;
+    });
+    return ends.map((count, i) => (count > 0 && count !== 2 ? i : -1)).filter(i => i !== -1);
+  }, [grid]);
+
+  const activeTile = CELL_TYPES.find(type => type.id === activeTool);
+
+  // Replaces the canvas with a generated maze of the same size; start and goal stay open
+  const handleGenerate = () => {
+    const generated = new MazeGenerator(grid[0].length, grid.length, { seed, algorithm, braid }).generate();
+    generated[startPos.y][startPos.x].isWall = false;
+    generated[goalPos.y][goalPos.x].isWall = false;
+    setGrid(generated);
+  };
 
   const confirmAction = () => {
     if (pendingAction === 'clear') {
       setGrid(currentGrid => 
         currentGrid.map(row => 
-          row.map(cell => ({ ...cell, isWall: false }))
+          row.map(cell => clearedCell(cell))
         )
       );
     } else if (pendingAction === 'cancel') {
@@ -121,7 +271,7 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
               </h3>
               <p className="text-gray-400 text-sm">
                 {pendingAction === 'clear' 
-                  ? "Are you sure you want to clear all walls? This action cannot be undone." 
+                  ? "Are you sure you want to clear all walls and tiles? This action cannot be undone." 
                   : "You have unsaved edits to your maze. Exit anyway and discard all changes?"}
               </p>
             </div>
@@ -178,6 +328,16 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
               label="Wall" 
               color="bg-gray-600"
             />
+            {TILE_TOOLS.map(tool => (
+              <ToolButton 
+                key={tool.id}
+                active={activeTool === tool.id} 
+                onClick={() => setActiveTool(tool.id)} 
+                icon={tool.icon} 
+                label={CELL_TYPES.find(type => type.id === tool.id)?.label ?? tool.id} 
+                color={tool.color}
+              />
+            ))}
             <ToolButton 
               active={activeTool === 'eraser'} 
               onClick={() => setActiveTool('eraser')} 
@@ -219,7 +379,7 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
               className="grid gap-px bg-gray-800 border border-gray-800"
               style={{ 
                 gridTemplateColumns: `repeat(${grid[0].length}, minmax(0, 1fr))`,
-                aspectRatio: '1/1'
+                aspectRatio: `${grid[0].length}/${grid.length}`
               }}
             >
               {grid.map((row, y) => row.map((cell, x) => {
@@ -230,7 +390,7 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
                   <div 
                     key={`${x}-${y}`}
                     className={`relative cursor-crosshair transition-colors duration-75 ${
-                      cell.isWall ? 'bg-gray-600' : 'bg-gray-900'
+                      cell.isWall ? 'bg-gray-600' : CELL_CLASSES[cellTypeOf(cell)] ?? 'bg-gray-900'
                     } hover:brightness-125`}
                     onMouseDown={(e) => {
                       e.preventDefault();
@@ -238,12 +398,17 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
                       handleCellAction(x, y);
                     }}
                     onMouseEnter={() => {
-                      if (isMouseDown && (activeTool === 'wall' || activeTool === 'eraser')) {
+                      if (isMouseDown && BRUSH_TOOLS.includes(activeTool)) {
                         handleCellAction(x, y);
                       }
                     }}
                     onMouseUp={() => setIsMouseDown(false)}
                   >
+                    {!cell.isWall && !isStart && !isGoal && (
+                      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <TileIcon cell={cell} goalColor={goalColors.get(cell) ?? ''} />
+                      </div>
+                    )}
                     {isStart && (
                       <div className="absolute inset-0 flex items-center justify-center bg-cyan-500/30">
                         <Flag className="w-4 h-4 text-cyan-400 fill-cyan-400" />
@@ -262,6 +427,152 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
           </div>
 
           <div className="lg:w-64 flex flex-col gap-4 text-xs">
+            {activeTile && (
+              <div className="p-4 bg-gray-900 border border-gray-800 rounded-xl space-y-3 shadow-lg">
+                <h4 className="font-bold text-gray-400 uppercase flex items-center gap-2">
+                  <Shapes className="w-3.5 h-3.5" /> {activeTile.label}
+                </h4>
+                <p className="text-gray-500 leading-relaxed">{activeTile.description}</p>
+                {activeTool === 'one-way' && (
+                  <div className="grid grid-cols-4 gap-1">
+                    {DIRECTIONS.map(option => (
+                      <button
+                        key={option.action}
+                        type="button"
+                        onClick={() => setDirection(option.action)}
+                        className={`flex justify-center py-1.5 rounded border ${direction === option.action ? 'bg-amber-500 border-amber-300 text-white' : 'bg-gray-800 border-gray-700 text-gray-400'}`}
+                        title={option.label}
+                      >
+                        <ArrowUp className="w-4 h-4" style={{ transform: `rotate(${option.action * 90}deg)` }} />
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {(activeTool === 'extra-goal' || activeTool === 'collectible') && (
+                  <div className="space-y-2">
+                    <label className="flex items-center justify-between gap-2 text-[10px] text-gray-500 uppercase">
+                      Reward
+                      <input
+                        type="number"
+                        step="10"
+                        value={tileReward}
+                        onChange={(e) => setTileReward(parseFloat(e.target.value) || 0)}
+                        className="w-24 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-cyan-400 text-right focus:outline-none focus:border-cyan-500"
+                      />
+                    </label>
+                    {activeTool === 'extra-goal' && (
+                      <label className="flex items-center gap-2 text-[10px] text-gray-500 uppercase cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={terminal}
+                          onChange={(e) => setTerminal(e.target.checked)}
+                          className="accent-cyan-400"
+                        />
+                        Ends the episode
+                      </label>
+                    )}
+                    <p className="text-[10px] text-gray-600">
+                      One-shot goals and collectibles: {pickupCount} / {MAX_PICKUPS}
+                    </p>
+                  </div>
+                )}
+                {(activeTool === 'gate' || activeTool === 'patrol') && (
+                  <label className="flex items-center justify-between gap-2 text-[10px] text-gray-500 uppercase">
+                    {activeTool === 'gate' ? 'Toggle every' : 'Move every'}
+                    <span className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        min="1"
+                        value={period}
+                        onChange={(e) => setPeriod(Math.max(1, parseInt(e.target.value) || 1))}
+                        className="w-16 px-2 py-1 bg-gray-800 border border-gray-700 rounded text-cyan-400 text-right focus:outline-none focus:border-cyan-500"
+                      />
+                      steps
+                    </span>
+                  </label>
+                )}
+                {isLinked(activeTile.id) && (
+                  <div className="flex gap-2">
+                    {LINK_COLORS.map((color, i) => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => setLink(i)}
+                        className={`w-6 h-6 rounded-full border-2 ${link === i ? 'border-white' : 'border-transparent'}`}
+                        style={{ backgroundColor: color }}
+                        title={`Link ${i + 1}`}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {unpairedTeleporters.length > 0 && (
+              <div className="p-3 bg-yellow-950/30 border border-yellow-900/50 rounded-xl flex items-start gap-2 text-yellow-400">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                <span className="leading-relaxed">
+                  Teleporters need exactly two ends per colour; unpaired ones do nothing.
+                </span>
+              </div>
+            )}
+            <div className="p-4 bg-gray-900 border border-gray-800 rounded-xl space-y-3 shadow-lg">
+              <h4 className="font-bold text-gray-400 uppercase flex items-center gap-2">
+                <Wand2 className="w-3.5 h-3.5" /> Generate
+              </h4>
+              <select
+                value={algorithm}
+                onChange={(e) => setAlgorithm(e.target.value as MazeAlgorithm)}
+                className="w-full px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-cyan-400 focus:outline-none focus:border-cyan-500"
+              >
+                {MAZE_ALGORITHMS.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  max={SEED_RANGE - 1}
+                  value={seed}
+                  onChange={(e) => setSeed(parseSeed(e.target.value))}
+                  className="flex-1 min-w-0 px-2 py-1.5 bg-gray-800 border border-gray-700 rounded text-cyan-400 focus:outline-none focus:border-cyan-500"
+                  title="Seed"
+                />
+                <button
+                  type="button"
+                  onClick={() => setSeed(randomSeed())}
+                  className="px-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded text-gray-300"
+                  title="Random seed"
+                >
+                  <Dices className="w-4 h-4" />
+                </button>
+              </div>
+              <label className="block space-y-1 text-[10px] text-gray-500 uppercase">
+                <div className="flex justify-between">
+                  <span>Braid</span>
+                  <span className="text-cyan-400">{Math.round(braid * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={braid}
+                  onChange={(e) => setBraid(parseFloat(e.target.value))}
+                  className="w-full h-1.5 bg-cyan-900 accent-cyan-400 rounded-lg appearance-none cursor-pointer"
+                />
+              </label>
+              <button
+                type="button"
+                onClick={handleGenerate}
+                className="w-full py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded font-bold uppercase tracking-widest text-[10px]"
+              >
+                Generate Layout
+              </button>
+              <p className="text-gray-500 leading-relaxed">
+                {MAZE_ALGORITHMS.find(option => option.id === algorithm)?.description}
+              </p>
+            </div>
             <div className="p-4 bg-gray-900 border border-gray-800 rounded-xl space-y-3 shadow-lg">
               <h4 className="font-bold text-gray-400 uppercase flex items-center gap-2">
                 <Info className="w-3.5 h-3.5" /> Instructions
@@ -270,7 +581,13 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
                 <li>• Use <span className="text-gray-300 font-bold">Wall tool</span> to click and drag to draw boundaries.</li>
                 <li>• Set the <span className="text-cyan-400 font-bold">Start</span> where the Runner begins its journey.</li>
                 <li>• Place the <span className="text-yellow-400 font-bold">Goal</span> to define the reward.</li>
-                <li>• <span className="text-red-400 font-bold">Clear All</span> removes all current wall cells.</li>
+                <li>• Paint <span className="text-sky-300 font-bold">Ice</span> where moves slip; tune the odds under Floor Dynamics.</li>
+                <li>• <span className="text-amber-600 font-bold">Mud</span> costs extra and <span className="text-red-400 font-bold">Traps</span> end the episode; set both under Reward Schema.</li>
+                <li>• <span className="text-purple-400 font-bold">Teleporters</span>, <span className="text-emerald-400 font-bold">Keys</span> and <span className="text-emerald-400 font-bold">Doors</span> pair up by colour.</li>
+                <li>• <span className="text-pink-400 font-bold">Extra Goals</span> carry their own reward; a small near one beside a big far one shows the effect of γ.</li>
+                <li>• <span className="text-slate-300 font-bold">Gates</span> and <span className="text-red-400 font-bold">Patrols</span> move on the episode's step clock, so the maze changes while the agent walks it.</li>
+                <li>• <span className="text-red-400 font-bold">Clear All</span> removes all current walls and tiles.</li>
+                <li>• <span className="text-cyan-400 font-bold">Generate</span> replaces the canvas with a seeded maze you can keep editing.</li>
               </ul>
             </div>
           </div>
@@ -280,6 +597,8 @@ export const MazeDesigner: React.FC<MazeDesignerProps> = ({
   );
 };
 
+const clearedCell = (cell: MazeCell): MazeCell => ({ x: cell.x, y: cell.y, isWall: false });
+
 const ToolButton: React.FC<{ 
   active: boolean; 
   onClick: () => void; 
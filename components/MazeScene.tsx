@@ -1,9 +1,12 @@
 
-import React, { useMemo, useRef } from 'react';
-import { Canvas, useFrame, useThree, extend } from '@react-three/fiber';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Canvas, ThreeEvent, useFrame, useThree, extend } from '@react-three/fiber';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { MazeCell, Position, QTable } from '../types';
+import { Action, MazeCell, ObservationConfig, Position, QTable } from '../types';
+import { greedyChoice } from '../services/Policy';
+import { cellTypeOf, goalColor, isGateOpen, linkColor, patrolPosition, patrolsOf, pickupBits } from '../services/CellTypes';
+import { DEFAULT_OBSERVATION, cellStateKey, compassTo, gridBlocked, localView, viewOffsets } from '../services/StateEncoders';
 
 // Register OrbitControls for use in JSX
 extend({ OrbitControls });
@@ -22,17 +25,51 @@ interface MazeSceneProps {
   goalPos: Position;
   qTable: QTable;
   exploredCells: Set<string>;
+  agentColor?: string;
+  // Extra runners drawn on the same grid, used by the overlaid comparison view
+  otherAgents?: { pos: Position; color: string }[];
+  // Shortest start-to-goal route drawn as a trail on the floor
+  optimalPath?: Position[];
+  // Draw the greedy action of every open cell as an arrow
+  showPolicy?: boolean;
+  // Step of the current episode, which drives gates and patrols
+  step?: number;
+  // Largest eligibility trace per cell ("x,y"), drawn as a glow that fades with the trace
+  traces?: Record<string, number>;
+  // How the agent perceives its state; the heat map and arrows follow the key each cell maps to
+  observation?: ObservationConfig;
+  // Mark the neighbours the agent reads and every cell that looks the same to it
+  showView?: boolean;
+  // Floor tile picking for the Q inspector; hover passes null when the pointer leaves a tile
+  inspectedCell?: Position | null;
+  onCellHover?: (pos: Position | null) => void;
+  onCellSelect?: (pos: Position) => void;
 }
 
 const WALL_COLOR = '#666666';
 const FLOOR_BASE_COLOR = '#1e1e1e';
+const ICE_COLOR = '#1d4e6b';
+const MUD_COLOR = '#3d2a17';
+const TRAP_COLOR = '#ff3b3b';
+const ONE_WAY_COLOR = '#fbbf24';
+const COLLECTIBLE_COLOR = '#fcd34d';
+const GATE_COLOR = '#94a3b8';
+const PATROL_COLOR = '#ef4444';
 const AGENT_COLOR = '#00f6ff';
 const GOAL_COLOR = '#ffde00';
 const EXPLORED_INDICATOR_COLOR = '#ffffff';
+const OPTIMAL_PATH_COLOR = '#ff4fd8';
+const POLICY_ARROW_COLOR = '#e0f2fe';
+const POLICY_TIE_COLOR = '#fb923c';
+const INSPECT_COLOR = '#a78bfa';
+const TRACE_COLOR = '#f43f5e';
+const VIEW_OPEN_COLOR = '#34d399';
+const VIEW_BLOCKED_COLOR = '#f87171';
+const ALIAS_COLOR = '#c084fc';
 
-// Center the 15x15 maze (indices 0-14) at world (0,0,0)
-const MAZE_SIZE = 15;
-const OFFSET = (MAZE_SIZE - 1) / 2; // = 7
+// Camera zoom that frames the classic 15x15 maze; other sizes scale from it
+const BASE_MAZE_SIZE = 15;
+const BASE_ZOOM = 10;
 
 const ExploredIndicator: React.FC<{ x: number, y: number }> = ({ x, y }) => {
   const meshRef = useRef<THREE.Mesh>(null);
@@ -45,7 +82,7 @@ const ExploredIndicator: React.FC<{ x: number, y: number }> = ({ x, y }) => {
   });
 
   return (
-    <mesh ref={meshRef} position={[x - OFFSET, 0.12, y - OFFSET]} rotation={[-Math.PI / 2, 0, 0]}>
+    <mesh ref={meshRef} position={[x, 0.12, y]} rotation={[-Math.PI / 2, 0, 0]}>
       <ringGeometry args={[0.3, 0.35, 16]} />
       <meshBasicMaterial color={EXPLORED_INDICATOR_COLOR} transparent opacity={0.6} />
     </mesh>
@@ -57,20 +94,36 @@ const Cell: React.FC<{
   maxQValue: number; 
   globalMaxQ: number;
   isExplored: boolean;
-}> = ({ cell, maxQValue, globalMaxQ, isExplored }) => {
+  onHover?: (pos: Position | null) => void;
+  onSelect?: (pos: Position) => void;
+}> = ({ cell, maxQValue, globalMaxQ, isExplored, onHover, onSelect }) => {
   const color = useMemo(() => {
     if (cell.isWall) return WALL_COLOR;
-    if (globalMaxQ <= 0) return FLOOR_BASE_COLOR;
+    const base = cell.cellType === 'ice' ? ICE_COLOR : cell.cellType === 'mud' ? MUD_COLOR : FLOOR_BASE_COLOR;
+    if (globalMaxQ <= 0) return base;
     
     const intensity = Math.min(1, Math.max(0, maxQValue / globalMaxQ));
-    const c = new THREE.Color(FLOOR_BASE_COLOR);
+    const c = new THREE.Color(base);
     const heat = new THREE.Color('#00ff44');
     return c.lerp(heat, intensity);
-  }, [cell.isWall, maxQValue, globalMaxQ]);
+  }, [cell.isWall, cell.cellType, maxQValue, globalMaxQ]);
 
   return (
     <group>
-      <mesh position={[cell.x - OFFSET, cell.isWall ? 0.5 : 0, cell.y - OFFSET]} receiveShadow castShadow={cell.isWall}>
+      <mesh
+        position={[cell.x, cell.isWall ? 0.5 : 0, cell.y]}
+        receiveShadow
+        castShadow={cell.isWall}
+        onPointerOver={cell.isWall || !onHover ? undefined : (e: ThreeEvent<PointerEvent>) => {
+          e.stopPropagation();
+          onHover({ x: cell.x, y: cell.y });
+        }}
+        onPointerOut={cell.isWall || !onHover ? undefined : () => onHover(null)}
+        onClick={cell.isWall || !onSelect ? undefined : (e: ThreeEvent<MouseEvent>) => {
+          e.stopPropagation();
+          onSelect({ x: cell.x, y: cell.y });
+        }}
+      >
         {cell.isWall ? (
           <boxGeometry args={[0.95, 1, 0.95]} />
         ) : (
@@ -78,8 +131,8 @@ const Cell: React.FC<{
         )}
         <meshStandardMaterial 
           color={color} 
-          roughness={0.4} 
-          metalness={0.2} 
+          roughness={cell.cellType === 'ice' ? 0.05 : cell.cellType === 'mud' ? 0.9 : 0.4} 
+          metalness={cell.cellType === 'ice' ? 0.6 : cell.cellType === 'mud' ? 0 : 0.2} 
           emissive={isExplored && !cell.isWall ? color : '#000000'}
           emissiveIntensity={isExplored ? 0.4 : 0}
         />
@@ -91,6 +144,18 @@ const Cell: React.FC<{
   );
 };
 
+// The Canvas camera prop only applies on mount, so re-frame whenever the maze size changes
+const CameraFraming: React.FC<{ size: number }> = ({ size }) => {
+  const { camera } = useThree();
+
+  useEffect(() => {
+    camera.zoom = BASE_ZOOM * BASE_MAZE_SIZE / Math.max(size, 1);
+    camera.updateProjectionMatrix();
+  }, [camera, size]);
+
+  return null;
+};
+
 const SceneControls = () => {
   const { camera, gl: { domElement } } = useThree();
   const target = useMemo(() => new THREE.Vector3(0, 0, 0), []);
@@ -107,7 +172,347 @@ const SceneControls = () => {
   );
 };
 
-export const MazeScene: React.FC<MazeSceneProps> = ({ grid, agentPos, goalPos, qTable, exploredCells }) => {
+const OptimalPath: React.FC<{ path: Position[] }> = ({ path }) => (
+  <group>
+    {path.map((pos, i) => (
+      <mesh key={i} position={[pos.x, 0.07, pos.y]} rotation={[-Math.PI / 2, 0, 0]}>
+        <circleGeometry args={[0.15, 16]} />
+        <meshBasicMaterial color={OPTIMAL_PATH_COLOR} transparent opacity={0.85} />
+      </mesh>
+    ))}
+  </group>
+);
+
+// Flat arrow pointing UP (−z) before the group rotates it towards the chosen action
+const PolicyArrow: React.FC<{ x: number; y: number; action: Action; opacity: number }> = ({ x, y, action, opacity }) => (
+  <group position={[x, 0.09, y]} rotation={[0, -action * Math.PI / 2, 0]}>
+    <mesh rotation={[-Math.PI / 2, 0, 0]}>
+      <coneGeometry args={[0.18, 0.5, 3]} />
+      <meshBasicMaterial color={POLICY_ARROW_COLOR} transparent opacity={opacity} />
+    </mesh>
+  </group>
+);
+
+// Ties are drawn as short stubs for each tied action around a dot, since the agent picks among them at random
+const PolicyTie: React.FC<{ x: number; y: number; actions: Action[] }> = ({ x, y, actions }) => (
+  <group position={[x, 0.09, y]}>
+    <mesh rotation={[-Math.PI / 2, 0, 0]}>
+      <circleGeometry args={[0.08, 12]} />
+      <meshBasicMaterial color={POLICY_TIE_COLOR} transparent opacity={0.8} />
+    </mesh>
+    {actions.map(action => (
+      <group key={action} rotation={[0, -action * Math.PI / 2, 0]}>
+        <mesh position={[0, 0, -0.22]} rotation={[-Math.PI / 2, 0, 0]}>
+          <coneGeometry args={[0.07, 0.16, 3]} />
+          <meshBasicMaterial color={POLICY_TIE_COLOR} transparent opacity={0.8} />
+        </mesh>
+      </group>
+    ))}
+  </group>
+);
+
+const PolicyOverlay: React.FC<{
+  grid: MazeCell[][];
+  goalPos: Position;
+  qTable: QTable;
+  stateKeys: Record<string, string | null>;
+  layer: string;
+}> = ({ grid, goalPos, qTable, stateKeys, layer }) => {
+  const choices = useMemo(() => {
+    const cells = grid.flat()
+      .filter(cell => !cell.isWall && !(cell.x === goalPos.x && cell.y === goalPos.y) && stateKeys[`${cell.x},${cell.y}`] !== null)
+      .map(cell => ({ cell, ...greedyChoice(qTable[`${stateKeys[`${cell.x},${cell.y}`]}${layer}`] || [0, 0, 0, 0]) }));
+    const maxMargin = Math.max(0, ...cells.map(c => c.margin));
+    return cells.map(c => ({ ...c, opacity: maxMargin > 0 ? 0.2 + 0.8 * (c.margin / maxMargin) : 0.2 }));
+  }, [grid, goalPos, qTable, stateKeys, layer]);
+
+  return (
+    <group>
+      {choices.map(({ cell, actions, opacity }) => actions.length > 1 ? (
+        <PolicyTie key={`${cell.x},${cell.y}`} x={cell.x} y={cell.y} actions={actions} />
+      ) : (
+        <PolicyArrow key={`${cell.x},${cell.y}`} x={cell.x} y={cell.y} action={actions[0]} opacity={opacity} />
+      ))}
+    </group>
+  );
+};
+
+// Accumulating traces can pass 1, so opacity is relative to the largest one
+const TraceOverlay: React.FC<{ traces: Record<string, number> }> = ({ traces }) => {
+  const maxTrace = Math.max(1, ...Object.values(traces));
+  return (
+    <group>
+      {Object.entries(traces).map(([key, trace]) => {
+        const [x, y] = key.split(',').map(Number);
+        // Observation keys are not tied to one cell
+        if (Number.isNaN(x) || Number.isNaN(y)) return null;
+        return (
+          <mesh key={key} position={[x, 0.075, y]} rotation={[-Math.PI / 2, 0, 0]}>
+            <planeGeometry args={[0.9, 0.9]} />
+            <meshBasicMaterial color={TRACE_COLOR} transparent opacity={0.1 + 0.7 * (trace / maxTrace)} />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+};
+
+// Four spikes on a red plate
+const TrapTile: React.FC<{ x: number; y: number }> = ({ x, y }) => (
+  <group position={[x, 0.06, y]}>
+    <mesh rotation={[-Math.PI / 2, 0, 0]}>
+      <planeGeometry args={[0.8, 0.8]} />
+      <meshStandardMaterial color={TRAP_COLOR} emissive={TRAP_COLOR} emissiveIntensity={0.6} />
+    </mesh>
+    {[[-0.2, -0.2], [0.2, -0.2], [-0.2, 0.2], [0.2, 0.2]].map(([dx, dz], i) => (
+      <mesh key={i} position={[dx, 0.15, dz]} castShadow>
+        <coneGeometry args={[0.08, 0.3, 6]} />
+        <meshStandardMaterial color="#cccccc" metalness={0.8} roughness={0.2} />
+      </mesh>
+    ))}
+  </group>
+);
+
+// Same flat arrow as the policy overlay, pointing the only way the tile can be crossed
+const OneWayTile: React.FC<{ x: number; y: number; direction: Action }> = ({ x, y, direction }) => (
+  <group position={[x, 0.08, y]} rotation={[0, -direction * Math.PI / 2, 0]}>
+    <mesh rotation={[-Math.PI / 2, 0, 0]}>
+      <coneGeometry args={[0.3, 0.7, 3]} />
+      <meshStandardMaterial color={ONE_WAY_COLOR} emissive={ONE_WAY_COLOR} emissiveIntensity={0.5} />
+    </mesh>
+  </group>
+);
+
+const TeleporterTile: React.FC<{ x: number; y: number; color: string }> = ({ x, y, color }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useFrame(({ clock }) => {
+    if (meshRef.current) meshRef.current.rotation.z = clock.getElapsedTime() * 2;
+  });
+
+  return (
+    <mesh ref={meshRef} position={[x, 0.12, y]} rotation={[-Math.PI / 2, 0, 0]}>
+      <torusGeometry args={[0.3, 0.06, 8, 6]} />
+      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={1.5} />
+    </mesh>
+  );
+};
+
+const KeyTile: React.FC<{ x: number; y: number; color: string }> = ({ x, y, color }) => (
+  <mesh position={[x, 0.4, y]} castShadow>
+    <octahedronGeometry args={[0.2]} />
+    <meshStandardMaterial color={color} emissive={color} emissiveIntensity={1.2} metalness={0.6} roughness={0.2} />
+  </mesh>
+);
+
+// Solid like a wall while locked; once the key is held it turns to glass the agent walks through
+const DoorTile: React.FC<{ x: number; y: number; color: string; open: boolean }> = ({ x, y, color, open }) => (
+  <mesh position={[x, 0.5, y]} castShadow={!open}>
+    <boxGeometry args={[0.9, 1, 0.9]} />
+    <meshStandardMaterial color={color} transparent={open} opacity={open ? 0.2 : 1} roughness={0.3} />
+  </mesh>
+);
+
+// Terminal goals look like the main goal; one-shot goals are a ring that disappears once taken
+const ExtraGoalTile: React.FC<{ x: number; y: number; color: string; terminal: boolean }> = ({ x, y, color, terminal }) => (
+  <group>
+    <mesh position={[x, terminal ? 0.5 : 0.3, y]} castShadow>
+      {terminal ? (
+        <cylinderGeometry args={[0.4, 0.4, 0.15, 32]} />
+      ) : (
+        <torusGeometry args={[0.28, 0.08, 12, 32]} />
+      )}
+      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={2.0} />
+    </mesh>
+    <pointLight position={[x, 2, y]} color={color} intensity={8} distance={6} />
+  </group>
+);
+
+const CollectibleTile: React.FC<{ x: number; y: number }> = ({ x, y }) => {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useFrame(({ clock }) => {
+    if (meshRef.current) meshRef.current.rotation.y = clock.getElapsedTime() * 3;
+  });
+
+  return (
+    <mesh ref={meshRef} position={[x, 0.35, y]} rotation={[Math.PI / 2, 0, 0]} castShadow>
+      <cylinderGeometry args={[0.18, 0.18, 0.05, 24]} />
+      <meshStandardMaterial color={COLLECTIBLE_COLOR} emissive={COLLECTIBLE_COLOR} emissiveIntensity={1.0} metalness={0.8} roughness={0.2} />
+    </mesh>
+  );
+};
+
+// Waypoints are faint dots in the patrol's colour; the hazard itself is a spiked ball
+const PatrolHazard: React.FC<{ pos: Position; color: string }> = ({ pos, color }) => (
+  <group>
+    <mesh position={[pos.x, 0.45, pos.y]} castShadow>
+      <icosahedronGeometry args={[0.3, 0]} />
+      <meshStandardMaterial color={PATROL_COLOR} emissive={PATROL_COLOR} emissiveIntensity={1.5} flatShading />
+    </mesh>
+    <mesh position={[pos.x, 0.08, pos.y]} rotation={[-Math.PI / 2, 0, 0]}>
+      <ringGeometry args={[0.35, 0.45, 16]} />
+      <meshBasicMaterial color={color} />
+    </mesh>
+    <pointLight position={[pos.x, 1.5, pos.y]} color={PATROL_COLOR} intensity={6} distance={4} />
+  </group>
+);
+
+const Patrols: React.FC<{ grid: MazeCell[][]; step: number }> = ({ grid, step }) => {
+  const patrols = useMemo(() => patrolsOf(grid), [grid]);
+  const waypoints = useMemo(() => grid.flat().filter(cell => cellTypeOf(cell) === 'patrol'), [grid]);
+
+  return (
+    <group>
+      {waypoints.map(cell => (
+        <mesh key={`${cell.x},${cell.y}`} position={[cell.x, 0.07, cell.y]} rotation={[-Math.PI / 2, 0, 0]}>
+          <circleGeometry args={[0.1, 12]} />
+          <meshBasicMaterial color={linkColor(cell.link)} transparent opacity={0.6} />
+        </mesh>
+      ))}
+      {patrols.map(patrol => (
+        <PatrolHazard key={patrol.link} pos={patrolPosition(patrol, step)} color={linkColor(patrol.link)} />
+      ))}
+    </group>
+  );
+};
+
+const SpecialTiles: React.FC<{ grid: MazeCell[][]; keys: number; step: number }> = ({ grid, keys, step }) => {
+  const pickups = useMemo(() => pickupBits(grid), [grid]);
+  const goalIndex = useMemo(() => {
+    const index = new Map<MazeCell, number>();
+    grid.flat().filter(cell => cellTypeOf(cell) === 'extra-goal').forEach((cell, i) => index.set(cell, i));
+    return index;
+  }, [grid]);
+  const taken = (id: string) => {
+    const bit = pickups.get(id);
+    return bit !== undefined && (keys & (1 << bit)) !== 0;
+  };
+
+  return (
+    <group>
+      {grid.flat().map(cell => {
+        const id = `${cell.x},${cell.y}`;
+        const held = (keys & (1 << (cell.link ?? 0))) !== 0;
+        switch (cellTypeOf(cell)) {
+          case 'trap':
+            return <TrapTile key={id} x={cell.x} y={cell.y} />;
+          case 'one-way':
+            return <OneWayTile key={id} x={cell.x} y={cell.y} direction={cell.direction ?? Action.UP} />;
+          case 'teleporter':
+            return <TeleporterTile key={id} x={cell.x} y={cell.y} color={linkColor(cell.link)} />;
+          case 'key':
+            return held ? null : <KeyTile key={id} x={cell.x} y={cell.y} color={linkColor(cell.link)} />;
+          case 'door':
+            return <DoorTile key={id} x={cell.x} y={cell.y} color={linkColor(cell.link)} open={held} />;
+          case 'extra-goal':
+            return taken(id) ? null : (
+              <ExtraGoalTile key={id} x={cell.x} y={cell.y} color={goalColor(goalIndex.get(cell) ?? 0)} terminal={cell.terminal !== false} />
+            );
+          case 'collectible':
+            return taken(id) ? null : <CollectibleTile key={id} x={cell.x} y={cell.y} />;
+          case 'gate':
+            return <DoorTile key={id} x={cell.x} y={cell.y} color={GATE_COLOR} open={isGateOpen(cell, step)} />;
+          default:
+            return null;
+        }
+      })}
+    </group>
+  );
+};
+
+const InspectMarker: React.FC<{ pos: Position }> = ({ pos }) => (
+  <mesh position={[pos.x, 0.08, pos.y]} rotation={[-Math.PI / 2, 0, 0]}>
+    <ringGeometry args={[0.42, 0.5, 4, 1, Math.PI / 4]} />
+    <meshBasicMaterial color={INSPECT_COLOR} />
+  </mesh>
+);
+
+const COMPASS_ANGLES: Record<string, number> = { N: 0, NE: 1, E: 2, SE: 3, S: 4, SW: 5, W: 6, NW: 7 };
+
+// What the agent reads around itself, an arrow for the compass, and the other cells that give the same reading
+const ViewOverlay: React.FC<{
+  grid: MazeCell[][];
+  agentPos: Position;
+  goalPos: Position;
+  observation: ObservationConfig;
+  step: number;
+}> = ({ grid, agentPos, goalPos, observation, step }) => {
+  const blocked = useMemo(() => gridBlocked(grid, agentPos.keys ?? 0, step), [grid, agentPos.keys, step]);
+  const aliases = useMemo(() => {
+    const seen = localView(blocked, agentPos, goalPos, observation);
+    return grid.flat().filter(cell =>
+      !cell.isWall &&
+      !(cell.x === agentPos.x && cell.y === agentPos.y) &&
+      localView(blocked, cell, goalPos, observation) === seen
+    );
+  }, [grid, blocked, agentPos, goalPos, observation]);
+  const direction = compassTo(agentPos, goalPos);
+
+  return (
+    <group>
+      {viewOffsets(observation.neighbours).map(d => {
+        const x = agentPos.x + d.x;
+        const y = agentPos.y + d.y;
+        return (
+          <mesh key={`${d.x},${d.y}`} position={[x, 0.1, y]} rotation={[-Math.PI / 2, 0, 0]}>
+            <ringGeometry args={[0.36, 0.46, 4, 1, Math.PI / 4]} />
+            <meshBasicMaterial color={blocked(x, y) ? VIEW_BLOCKED_COLOR : VIEW_OPEN_COLOR} transparent opacity={0.85} />
+          </mesh>
+        );
+      })}
+      {aliases.map(cell => (
+        <mesh key={`${cell.x},${cell.y}`} position={[cell.x, 0.085, cell.y]} rotation={[-Math.PI / 2, 0, 0]}>
+          <planeGeometry args={[0.7, 0.7]} />
+          <meshBasicMaterial color={ALIAS_COLOR} transparent opacity={0.35} />
+        </mesh>
+      ))}
+      {observation.compass && direction !== '*' && (
+        <group position={[agentPos.x, 1.1, agentPos.y]} rotation={[0, -COMPASS_ANGLES[direction] * Math.PI / 4, 0]}>
+          <mesh position={[0, 0, -0.3]} rotation={[-Math.PI / 2, 0, 0]}>
+            <coneGeometry args={[0.12, 0.35, 3]} />
+            <meshBasicMaterial color={GOAL_COLOR} />
+          </mesh>
+        </group>
+      )}
+    </group>
+  );
+};
+
+const AgentMarker: React.FC<{ pos: Position; color: string; scale?: number }> = ({ pos, color, scale = 1 }) => (
+  <group>
+    <mesh position={[pos.x, 0.6, pos.y]} scale={scale} castShadow>
+      <sphereGeometry args={[0.35, 32, 32]} />
+      <meshStandardMaterial 
+        color={color} 
+        emissive={color} 
+        emissiveIntensity={2} 
+        roughness={0}
+        metalness={0.8}
+      />
+    </mesh>
+    <pointLight position={[pos.x, 2, pos.y]} color={color} intensity={15} distance={10} />
+  </group>
+);
+
+export const MazeScene: React.FC<MazeSceneProps> = ({
+  grid,
+  agentPos,
+  goalPos,
+  qTable,
+  exploredCells,
+  agentColor = AGENT_COLOR,
+  otherAgents = [],
+  optimalPath,
+  showPolicy = false,
+  step = 0,
+  traces,
+  observation = DEFAULT_OBSERVATION,
+  showView = false,
+  inspectedCell,
+  onCellHover,
+  onCellSelect
+}) => {
   const globalMaxQ = useMemo(() => {
     let max = 0.0001;
     const values = Object.values(qTable) as number[][];
@@ -119,6 +524,23 @@ export const MazeScene: React.FC<MazeSceneProps> = ({ grid, agentPos, goalPos, q
     return max;
   }, [qTable]);
 
+  // Keys held are part of the state, so the heat map and arrows show the layer the agent is in now
+  const layer = agentPos.keys ? `|${agentPos.keys}` : '';
+  // Table key of every cell as the agent would see it now; under a local view look-alike cells share one
+  const stateKeys = useMemo(() => {
+    const blocked = gridBlocked(grid, agentPos.keys ?? 0, step);
+    const keys: Record<string, string | null> = {};
+    grid.flat().forEach(cell => {
+      keys[`${cell.x},${cell.y}`] = cellStateKey(blocked, cell, goalPos, observation);
+    });
+    return keys;
+  }, [grid, goalPos, observation, agentPos.keys, step]);
+
+  const width = grid[0]?.length ?? BASE_MAZE_SIZE;
+  const height = grid.length || BASE_MAZE_SIZE;
+  const mazeSize = Math.max(width, height);
+  const ringScale = mazeSize / BASE_MAZE_SIZE;
+
   return (
     <Canvas 
       shadows 
@@ -133,6 +555,7 @@ export const MazeScene: React.FC<MazeSceneProps> = ({ grid, agentPos, goalPos, q
       style={{ background: '#060609' }}
     >
       <SceneControls />
+      <CameraFraming size={mazeSize} />
 
       {/* Balanced global lighting: In-between versions */}
       <hemisphereLight intensity={1.8} color="#ffffff" groundColor="#111122" />
@@ -156,12 +579,14 @@ export const MazeScene: React.FC<MazeSceneProps> = ({ grid, agentPos, goalPos, q
         color="#aaccff"
       />
       
-      <group>
+      {/* Center the maze (indices 0..size-1) at world (0,0,0) */}
+      <group position={[-(width - 1) / 2, 0, -(height - 1) / 2]}>
         {/* Maze Grid */}
         {grid.map((row, y) => 
           row.map((cell, x) => {
             const key = `${x},${y}`;
-            const qValues = qTable[key] || [0, 0, 0, 0];
+            const stateKey = stateKeys[key];
+            const qValues = (stateKey !== null && qTable[stateKey + layer]) || [0, 0, 0, 0];
             const maxQValue = Math.max(...qValues);
             const isExplored = exploredCells.has(key);
             return (
@@ -171,25 +596,31 @@ export const MazeScene: React.FC<MazeSceneProps> = ({ grid, agentPos, goalPos, q
                 maxQValue={maxQValue} 
                 globalMaxQ={globalMaxQ} 
                 isExplored={isExplored}
+                onHover={onCellHover}
+                onSelect={onCellSelect}
               />
             );
           })
         )}
 
+        <SpecialTiles grid={grid} keys={agentPos.keys ?? 0} step={step} />
+        <Patrols grid={grid} step={step} />
+        {showPolicy && <PolicyOverlay grid={grid} goalPos={goalPos} qTable={qTable} stateKeys={stateKeys} layer={layer} />}
+        {showView && observation.encoder !== 'position' && (
+          <ViewOverlay grid={grid} agentPos={agentPos} goalPos={goalPos} observation={observation} step={step} />
+        )}
+        {traces && <TraceOverlay traces={traces} />}
+        {optimalPath && <OptimalPath path={optimalPath} />}
+        {inspectedCell && <InspectMarker pos={inspectedCell} />}
+
         {/* Agent Character */}
-        <mesh position={[agentPos.x - OFFSET, 0.6, agentPos.y - OFFSET]} castShadow>
-          <sphereGeometry args={[0.35, 32, 32]} />
-          <meshStandardMaterial 
-            color={AGENT_COLOR} 
-            emissive={AGENT_COLOR} 
-            emissiveIntensity={2} 
-            roughness={0}
-            metalness={0.8}
-          />
-        </mesh>
+        <AgentMarker pos={agentPos} color={agentColor} />
+        {otherAgents.map((agent, i) => (
+          <AgentMarker key={i} pos={agent.pos} color={agent.color} scale={0.8} />
+        ))}
 
         {/* Goal Indicator */}
-        <mesh position={[goalPos.x - OFFSET, 0.5, goalPos.y - OFFSET]} castShadow>
+        <mesh position={[goalPos.x, 0.5, goalPos.y]} castShadow>
           <cylinderGeometry args={[0.45, 0.45, 0.15, 32]} />
           <meshStandardMaterial 
             color={GOAL_COLOR} 
@@ -198,9 +629,8 @@ export const MazeScene: React.FC<MazeSceneProps> = ({ grid, agentPos, goalPos, q
           />
         </mesh>
         
-        {/* Dynamic Lights for Runner and Goal */}
-        <pointLight position={[agentPos.x - OFFSET, 2, agentPos.y - OFFSET]} color={AGENT_COLOR} intensity={15} distance={10} />
-        <pointLight position={[goalPos.x - OFFSET, 2, goalPos.y - OFFSET]} color={GOAL_COLOR} intensity={20} distance={12} />
+        {/* Dynamic Light for Goal */}
+        <pointLight position={[goalPos.x, 2, goalPos.y]} color={GOAL_COLOR} intensity={20} distance={12} />
       </group>
 
       {/* Balanced Extended Floor Design */}
@@ -218,10 +648,10 @@ export const MazeScene: React.FC<MazeSceneProps> = ({ grid, agentPos, goalPos, q
         <gridHelper args={[100, 20, '#2a2a3d', '#14141d']} position={[0, 0.02, 0]} />
         
         {/* Tight grid that fits exactly under the maze cells */}
-        <gridHelper args={[15, 15, '#444466', '#222233']} position={[0, 0.03, 0]} />
+        <gridHelper args={[mazeSize, mazeSize, '#444466', '#222233']} position={[0, 0.03, 0]} />
         
         {/* Glowing border ring around the maze area */}
-        <mesh position={[0, 0.05, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <mesh position={[0, 0.05, 0]} rotation={[-Math.PI / 2, 0, 0]} scale={ringScale}>
           <ringGeometry args={[11, 11.2, 64]} />
           <meshBasicMaterial color="#00f6ff" transparent opacity={0.2} />
         </mesh>
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Dices, Grid3x3 } from 'lucide-react';
+import { MazeAlgorithm, MazeConfig } from '../types';
+import { MAZE_ALGORITHMS } from '../services/MazeStrategies';
+import { SEED_RANGE, parseSeed, randomSeed } from '../services/SeededRandom';
+
+interface NewMazeDialogProps {
+  initialConfig: MazeConfig;
+  onGenerate: (config: MazeConfig) => void;
+  onCancel: () => void;
+}
+
+export const MIN_MAZE_SIZE = 5;
+export const MAX_MAZE_SIZE = 41;
+
+const clampSize = (value: number) =>
+  Math.min(MAX_MAZE_SIZE, Math.max(MIN_MAZE_SIZE, isNaN(value) ? MIN_MAZE_SIZE : value));
+
+export const NewMazeDialog: React.FC<NewMazeDialogProps> = ({ initialConfig, onGenerate, onCancel }) => {
+  const [width, setWidth] = useState(initialConfig.width);
+  const [height, setHeight] = useState(initialConfig.height);
+  const [seed, setSeed] = useState(initialConfig.seed);
+  const [algorithm, setAlgorithm] = useState<MazeAlgorithm>(initialConfig.algorithm);
+  const [braid, setBraid] = useState(initialConfig.braid);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl p-8 max-w-sm w-full shadow-2xl flex flex-col gap-6">
+        <div className="flex items-center gap-3">
+          <div className="p-3 rounded-full bg-cyan-500/10 text-cyan-400">
+            <Grid3x3 className="w-6 h-6" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-white uppercase tracking-tight">New Maze</h3>
+            <p className="text-gray-400 text-xs">The same size and seed always rebuild the same maze.</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-[10px] uppercase text-gray-500">
+          <label className="col-span-2 flex flex-col gap-1">
+            Algorithm
+            <select
+              value={algorithm}
+              onChange={(e) => setAlgorithm(e.target.value as MazeAlgorithm)}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded text-cyan-400 text-sm focus:outline-none focus:border-cyan-500"
+            >
+              {MAZE_ALGORITHMS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <span className="normal-case text-gray-500">
+              {MAZE_ALGORITHMS.find(option => option.id === algorithm)?.description}
+            </span>
+          </label>
+          <label className="flex flex-col gap-1">
+            Width
+            <input
+              type="number"
+              min={MIN_MAZE_SIZE}
+              max={MAX_MAZE_SIZE}
+              value={width}
+              onChange={(e) => setWidth(parseInt(e.target.value))}
+              onBlur={() => setWidth(clampSize(width))}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded text-cyan-400 text-sm focus:outline-none focus:border-cyan-500"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Height
+            <input
+              type="number"
+              min={MIN_MAZE_SIZE}
+              max={MAX_MAZE_SIZE}
+              value={height}
+              onChange={(e) => setHeight(parseInt(e.target.value))}
+              onBlur={() => setHeight(clampSize(height))}
+              className="px-3 py-2 bg-gray-800 border border-gray-700 rounded text-cyan-400 text-sm focus:outline-none focus:border-cyan-500"
+            />
+          </label>
+          <label className="col-span-2 flex flex-col gap-1">
+            Seed
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                max={SEED_RANGE - 1}
+                value={seed}
+                onChange={(e) => setSeed(parseSeed(e.target.value))}
+                className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded text-cyan-400 text-sm focus:outline-none focus:border-cyan-500"
+              />
+              <button
+                type="button"
+                onClick={() => setSeed(randomSeed())}
+                className="px-3 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded text-gray-300"
+                title="Random seed"
+              >
+                <Dices className="w-4 h-4" />
+              </button>
+            </div>
+          </label>
+          <label className="col-span-2 flex flex-col gap-1">
+            <div className="flex justify-between">
+              <span>Braid (dead ends removed)</span>
+              <span className="text-cyan-400">{Math.round(braid * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={braid}
+              onChange={(e) => setBraid(parseFloat(e.target.value))}
+              className="w-full h-1.5 bg-cyan-900 accent-cyan-400 rounded-lg appearance-none cursor-pointer"
+            />
+            <span className="normal-case text-gray-500">
+              0% keeps a single route. Higher values add loops, so the maze has routes of different lengths.
+            </span>
+          </label>
+        </div>
+
+        <div className="flex gap-3 w-full">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 px-4 py-3 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-xl font-bold text-xs uppercase tracking-widest transition-all"
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={() => onGenerate({ width: clampSize(width), height: clampSize(height), seed, algorithm, braid })}
+            className="flex-1 px-4 py-3 rounded-xl font-bold text-xs uppercase tracking-widest transition-all text-white bg-cyan-600 hover:bg-cyan-500 shadow-lg shadow-cyan-900/20"
+          >
+            Generate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
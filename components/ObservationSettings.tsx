@@ -0,0 +1,88 @@
+import React from 'react';
+import { ScanEye } from 'lucide-react';
+import { EncoderKind, ObservationConfig } from '../types';
+import { STATE_ENCODERS } from '../services/StateEncoders';
+
+interface ObservationSettingsProps {
+  config: ObservationConfig;
+  disabled: boolean;
+  onChange: (config: ObservationConfig) => void;
+}
+
+export const ObservationSettings: React.FC<ObservationSettingsProps> = ({ config, disabled, onChange }) => {
+  const partial = config.encoder !== 'position';
+
+  return (
+    <div className={`p-4 rounded-lg border transition-all space-y-3 ${
+      disabled
+        ? 'bg-gray-900/50 border-gray-800 opacity-80'
+        : 'bg-gray-800 border-cyan-900/50 shadow-inner shadow-cyan-950'
+    }`}>
+      <div className="flex items-center gap-2 text-xs text-gray-400 uppercase font-bold">
+        <ScanEye className="w-3 h-3" />
+        <span>Agent Senses</span>
+      </div>
+      <select
+        value={config.encoder}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...config, encoder: e.target.value as EncoderKind })}
+        className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+      >
+        {STATE_ENCODERS.map(encoder => (
+          <option key={encoder.id} value={encoder.id}>{encoder.label}</option>
+        ))}
+      </select>
+      <p className="text-[9px] text-gray-500 leading-relaxed">
+        {STATE_ENCODERS.find(encoder => encoder.id === config.encoder)?.description}
+      </p>
+      {partial && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {([4, 8] as const).map(n => (
+              <button
+                key={n}
+                disabled={disabled}
+                onClick={() => onChange({ ...config, neighbours: n })}
+                className={`py-1 text-[10px] font-bold rounded border uppercase disabled:cursor-not-allowed ${
+                  config.neighbours === n
+                    ? 'bg-cyan-600 border-cyan-500 text-white'
+                    : 'bg-gray-900 border-gray-700 text-gray-400'
+                }`}
+              >
+                {n} neighbours
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer text-[10px] font-bold uppercase text-gray-300">
+            <input
+              type="checkbox"
+              disabled={disabled}
+              checked={config.compass}
+              onChange={(e) => onChange({ ...config, compass: e.target.checked })}
+              className="accent-cyan-400"
+            />
+            Goal compass
+          </label>
+        </>
+      )}
+      {config.encoder === 'history' && (
+        <div className="space-y-1.5">
+          <div className="flex justify-between text-[10px]">
+            <span className="text-gray-400">Views remembered</span>
+            <span className="text-cyan-400">{config.historyLength}</span>
+          </div>
+          <input
+            type="range"
+            min="1"
+            max="6"
+            step="1"
+            disabled={disabled}
+            value={config.historyLength}
+            onChange={(e) => onChange({ ...config, historyLength: parseInt(e.target.value) })}
+            className="w-full h-1.5 bg-cyan-900 accent-cyan-400 rounded-lg appearance-none cursor-pointer"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
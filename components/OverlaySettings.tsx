@@ -0,0 +1,38 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+
+export type OverlayToggle = {
+  label: string;
+  description: string;
+  active: boolean;
+  onChange: (active: boolean) => void;
+};
+
+interface OverlaySettingsProps {
+  toggles: OverlayToggle[];
+}
+
+export const OverlaySettings: React.FC<OverlaySettingsProps> = ({ toggles }) => {
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex justify-between items-center text-xs text-gray-400 uppercase font-bold">
+        <span>Overlays</span>
+        <Layers className="w-3 h-3" />
+      </div>
+      {toggles.map(({ label, description, active, onChange }) => (
+        <label key={label} className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={active}
+            onChange={(e) => onChange(e.target.checked)}
+            className="mt-0.5 accent-cyan-400"
+          />
+          <span className="flex flex-col">
+            <span className="text-[10px] font-bold uppercase text-gray-300">{label}</span>
+            <span className="text-[9px] text-gray-500 leading-relaxed">{description}</span>
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+};
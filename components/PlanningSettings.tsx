@@ -0,0 +1,101 @@
+import React from 'react';
+import { BrainCircuit } from 'lucide-react';
+import { PlanningConfig } from '../types';
+
+interface PlanningSettingsProps {
+  config: PlanningConfig;
+  disabled: boolean;
+  onChange: (config: PlanningConfig) => void;
+  // Live figures from the agent: simulated updates so far, and modelled vs possible state-actions
+  planningUpdates: number;
+  modelSize: number;
+  modelCapacity: number;
+}
+
+export const PlanningSettings: React.FC<PlanningSettingsProps> = ({
+  config,
+  disabled,
+  onChange,
+  planningUpdates,
+  modelSize,
+  modelCapacity
+}) => {
+  const coverage = modelCapacity > 0 ? modelSize / modelCapacity : 0;
+
+  return (
+    <div className={`p-4 rounded-lg border transition-all space-y-3 ${
+      disabled
+        ? 'bg-gray-900/50 border-gray-800 opacity-80'
+        : 'bg-gray-800 border-cyan-900/50 shadow-inner shadow-cyan-950'
+    }`}>
+      <div className="flex items-center gap-2 text-xs text-gray-400 uppercase font-bold">
+        <BrainCircuit className="w-3 h-3" />
+        <span>Planning</span>
+      </div>
+      <div className="space-y-1.5">
+        <div className="flex justify-between text-[10px]">
+          <span className="text-gray-400">Steps per move (K)</span>
+          <span className="text-cyan-400">{config.steps}</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="100"
+          step="1"
+          disabled={disabled}
+          value={config.steps}
+          onChange={(e) => onChange({ ...config, steps: parseInt(e.target.value) })}
+          className="w-full h-1.5 bg-cyan-900 accent-cyan-400 rounded-lg appearance-none cursor-pointer"
+        />
+      </div>
+      <label className="flex items-start gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          disabled={disabled}
+          checked={config.prioritized}
+          onChange={(e) => onChange({ ...config, prioritized: e.target.checked })}
+          className="mt-0.5 accent-cyan-400"
+        />
+        <span className="flex flex-col">
+          <span className="text-[10px] font-bold uppercase text-gray-300">Prioritized Sweeping</span>
+          <span className="text-[9px] text-gray-500 leading-relaxed">
+            Replay the moves whose value would change most, working back from each update.
+          </span>
+        </span>
+      </label>
+      {config.prioritized && (
+        <label className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase">
+          Threshold θ
+          <input
+            type="number"
+            step={0.01}
+            min={0}
+            disabled={disabled}
+            value={config.threshold}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              onChange({ ...config, threshold: isNaN(value) ? 0 : value });
+            }}
+            className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+          />
+        </label>
+      )}
+      <div className="grid grid-cols-2 gap-2 pt-1 border-t border-gray-700/60">
+        <div className="flex flex-col">
+          <span className="text-[9px] text-gray-500 uppercase">Planning updates</span>
+          <span className="text-xs font-mono text-cyan-300">{planningUpdates.toLocaleString()}</span>
+        </div>
+        <div className="flex flex-col">
+          <span className="text-[9px] text-gray-500 uppercase">Model coverage</span>
+          <span className="text-xs font-mono text-cyan-300">
+            {(coverage * 100).toFixed(0)}%
+            <span className="text-[9px] text-gray-500"> ({modelSize}/{modelCapacity})</span>
+          </span>
+        </div>
+        <div className="col-span-2 h-1 bg-gray-900 rounded overflow-hidden">
+          <div className="h-full bg-cyan-500" style={{ width: `${Math.min(1, coverage) * 100}%` }} />
+        </div>
+      </div>
+    </div>
+  );
+};
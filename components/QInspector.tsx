@@ -0,0 +1,72 @@
+import React from 'react';
+import { ScanSearch, X } from 'lucide-react';
+import { Action, Position } from '../types';
+import { greedyChoice } from '../services/Policy';
+
+interface QInspectorProps {
+  cell: Position;
+  // Undefined while the agent has never been in this cell
+  qValues?: number[];
+  visits: number;
+  lastTdError: number | null;
+  pinned: boolean;
+  onClose: () => void;
+}
+
+const ACTION_ROWS: { action: Action; label: string; arrow: string }[] = [
+  { action: Action.UP, label: 'Up', arrow: '↑' },
+  { action: Action.RIGHT, label: 'Right', arrow: '→' },
+  { action: Action.DOWN, label: 'Down', arrow: '↓' },
+  { action: Action.LEFT, label: 'Left', arrow: '←' },
+];
+
+export const QInspector: React.FC<QInspectorProps> = ({ cell, qValues, visits, lastTdError, pinned, onClose }) => {
+  const values = qValues ?? [0, 0, 0, 0];
+  const { actions: greedy } = greedyChoice(values);
+  const isTie = greedy.length > 1;
+
+  return (
+    <div className="w-56 p-3 bg-gray-900/90 backdrop-blur border border-violet-500/40 rounded-lg shadow-2xl space-y-2">
+      <div className="flex justify-between items-center text-[10px] text-gray-400 uppercase font-bold">
+        <span className="flex items-center gap-1.5">
+          <ScanSearch className="w-3 h-3 text-violet-400" /> Cell ({cell.x},{cell.y})
+        </span>
+        {pinned && (
+          <button onClick={onClose} className="text-gray-500 hover:text-white" title="Close">
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      <div className="space-y-1">
+        {ACTION_ROWS.map(({ action, label, arrow }) => {
+          const isGreedy = greedy.includes(action);
+          return (
+            <div
+              key={action}
+              className={`flex justify-between items-center px-2 py-1 rounded text-xs ${
+                isGreedy ? (isTie ? 'bg-orange-500/10 text-orange-300' : 'bg-violet-500/20 text-violet-200 font-bold') : 'text-gray-400'
+              }`}
+            >
+              <span>{arrow} {label}</span>
+              <span className="font-mono">{values[action].toFixed(3)}</span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-center">
+        <div className="bg-gray-800 p-1.5 rounded">
+          <p className="text-[8px] text-gray-500 uppercase">Visits</p>
+          <p className="text-xs font-bold text-cyan-400">{visits}</p>
+        </div>
+        <div className="bg-gray-800 p-1.5 rounded">
+          <p className="text-[8px] text-gray-500 uppercase">Last TD Error</p>
+          <p className="text-xs font-bold text-red-400">{lastTdError === null ? '---' : lastTdError.toFixed(3)}</p>
+        </div>
+      </div>
+      <p className="text-[9px] text-gray-500">
+        {!qValues ? 'Not visited yet.' : isTie ? 'Tied: the agent picks among the highlighted actions.' : 'Highlighted action is greedy.'}
+        {!pinned && ' Click a tile to pin.'}
+      </p>
+    </div>
+  );
+};
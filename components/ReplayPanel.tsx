@@ -0,0 +1,148 @@
+import React from 'react';
+import { Film, Pause, Play, StepBack, StepForward, X } from 'lucide-react';
+import { EpisodeRecording } from '../types';
+
+export type ReplaySelection = {
+  primary: EpisodeRecording;
+  // Optional second episode drawn as a ghost alongside the first
+  ghost: EpisodeRecording | null;
+};
+
+interface ReplayPanelProps {
+  recordings: EpisodeRecording[];
+  best: EpisodeRecording | null;
+  selection: ReplaySelection | null;
+  frame: number;
+  totalFrames: number;
+  playing: boolean;
+  onSelect: (selection: ReplaySelection | null) => void;
+  onFrameChange: (frame: number) => void;
+  onTogglePlay: () => void;
+}
+
+const recordingLabel = (r: EpisodeRecording) =>
+  `Ep ${r.episode} · ${r.steps} steps${r.success ? '' : ' (lost)'}`;
+
+const RecordingSelect: React.FC<{
+  label: string;
+  recordings: EpisodeRecording[];
+  value: EpisodeRecording | null;
+  allowNone: boolean;
+  onChange: (recording: EpisodeRecording | null) => void;
+}> = ({ label, recordings, value, allowNone, onChange }) => (
+  <label className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase">
+    {label}
+    <select
+      value={value?.episode ?? ''}
+      onChange={(e) => onChange(recordings.find(r => r.episode === parseInt(e.target.value)) ?? null)}
+      className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs normal-case focus:outline-none focus:border-cyan-500"
+    >
+      {allowNone && <option value="">None</option>}
+      {recordings.map(r => (
+        <option key={r.episode} value={r.episode}>{recordingLabel(r)}</option>
+      ))}
+    </select>
+  </label>
+);
+
+export const ReplayPanel: React.FC<ReplayPanelProps> = ({
+  recordings,
+  best,
+  selection,
+  frame,
+  totalFrames,
+  playing,
+  onSelect,
+  onFrameChange,
+  onTogglePlay
+}) => {
+  const first = recordings[0] ?? null;
+  const lastFrame = Math.max(0, totalFrames - 1);
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex justify-between items-center text-xs text-gray-400 uppercase font-bold">
+        <span>Episode Replay</span>
+        <Film className="w-3 h-3" />
+      </div>
+      {recordings.length === 0 ? (
+        <p className="text-[10px] text-gray-500">Finished episodes are recorded here for replay.</p>
+      ) : !selection ? (
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => first && onSelect({ primary: first, ghost: best && best !== first ? best : null })}
+            className="py-1.5 text-[10px] font-bold rounded bg-cyan-600 hover:bg-cyan-500 text-white uppercase"
+          >
+            First vs Best
+          </button>
+          <button
+            onClick={() => onSelect({ primary: recordings[recordings.length - 1], ghost: null })}
+            className="py-1.5 text-[10px] font-bold rounded bg-gray-900 border border-gray-700 text-cyan-300 uppercase"
+          >
+            Latest
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <RecordingSelect
+              label="Episode"
+              recordings={recordings}
+              value={selection.primary}
+              allowNone={false}
+              onChange={(r) => r && onSelect({ ...selection, primary: r })}
+            />
+            <RecordingSelect
+              label="Ghost"
+              recordings={recordings}
+              value={selection.ghost}
+              allowNone
+              onChange={(r) => onSelect({ ...selection, ghost: r })}
+            />
+          </div>
+          <input
+            type="range"
+            min="0"
+            max={lastFrame}
+            value={frame}
+            onChange={(e) => onFrameChange(parseInt(e.target.value))}
+            className="w-full h-1.5 bg-cyan-900 accent-cyan-400 rounded-lg appearance-none cursor-pointer"
+          />
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onFrameChange(Math.max(0, frame - 1))}
+              className="p-1.5 rounded bg-gray-900 border border-gray-700 text-gray-300 hover:text-white"
+              title="Step back"
+            >
+              <StepBack className="w-3 h-3" />
+            </button>
+            <button
+              onClick={onTogglePlay}
+              className="p-1.5 rounded bg-cyan-600 hover:bg-cyan-500 text-white"
+              title={playing ? 'Pause' : 'Play'}
+            >
+              {playing ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+            </button>
+            <button
+              onClick={() => onFrameChange(Math.min(lastFrame, frame + 1))}
+              className="p-1.5 rounded bg-gray-900 border border-gray-700 text-gray-300 hover:text-white"
+              title="Step forward"
+            >
+              <StepForward className="w-3 h-3" />
+            </button>
+            <span className="flex-1 text-right text-[9px] text-gray-500 uppercase">
+              Step {frame} / {lastFrame}
+            </span>
+            <button
+              onClick={() => onSelect(null)}
+              className="p-1.5 rounded text-gray-500 hover:text-white"
+              title="Exit replay"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
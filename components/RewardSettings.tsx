@@ -0,0 +1,55 @@
+import React from 'react';
+import { Coins } from 'lucide-react';
+import { RewardConfig } from '../types';
+
+interface RewardSettingsProps {
+  config: RewardConfig;
+  disabled: boolean;
+  onChange: (config: RewardConfig) => void;
+}
+
+const FIELDS: { key: keyof RewardConfig; label: string; step: number }[] = [
+  { key: 'stepCost', label: 'Step Cost', step: 1 },
+  { key: 'wallPenalty', label: 'Wall Bump', step: 10 },
+  { key: 'goalReward', label: 'Goal', step: 50 },
+  { key: 'revisitPenalty', label: 'Revisit', step: 1 },
+  { key: 'mudCost', label: 'Mud', step: 1 },
+  { key: 'trapPenalty', label: 'Trap', step: 50 },
+  { key: 'shapingScale', label: 'Shaping Φ', step: 0.5 },
+];
+
+export const RewardSettings: React.FC<RewardSettingsProps> = ({ config, disabled, onChange }) => {
+  return (
+    <div className={`p-4 rounded-lg border transition-all ${
+      disabled
+        ? 'bg-gray-900/50 border-gray-800 opacity-80'
+        : 'bg-gray-800 border-cyan-900/50 shadow-inner shadow-cyan-950'
+    }`}>
+      <div className="flex items-center gap-2 text-xs text-gray-400 uppercase font-bold mb-3">
+        <Coins className="w-3 h-3" />
+        <span>Reward Schema</span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map(({ key, label, step }) => (
+          <label key={key} className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase">
+            {label}
+            <input
+              type="number"
+              step={step}
+              disabled={disabled}
+              value={config[key]}
+              onChange={(e) => {
+                const value = parseFloat(e.target.value);
+                onChange({ ...config, [key]: isNaN(value) ? 0 : value });
+              }}
+              className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+            />
+          </label>
+        ))}
+      </div>
+      <p className="mt-3 text-[9px] text-gray-500 leading-relaxed">
+        Values are added to the reward each step. Shaping adds γΦ(s') − Φ(s) with Φ = −scale × distance to goal; 0 turns it off.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useMemo } from 'react';
+import { TrendingDown } from 'lucide-react';
+import { ScheduleConfig, ScheduleKind } from '../types';
+import { SCHEDULE_KINDS, scheduleCurve, withScheduleKind } from '../services/Schedules';
+import { downsample } from '../services/LearningCurve';
+
+interface ScheduleSettingsProps {
+  epsilonSchedule: ScheduleConfig;
+  alphaSchedule: ScheduleConfig;
+  initialEpsilon: number;
+  initialAlpha: number;
+  disabled: boolean;
+  onEpsilonChange: (config: ScheduleConfig) => void;
+  onAlphaChange: (config: ScheduleConfig) => void;
+}
+
+const PREVIEW_EPISODES = 1000;
+const PREVIEW_POINTS = 200;
+const CHART_WIDTH = 260;
+const CHART_HEIGHT = 40;
+
+type NumericKey = Exclude<keyof ScheduleConfig, 'kind'>;
+
+const FIELDS: Record<ScheduleKind, { key: NumericKey; label: string; step: number }[]> = {
+  constant: [],
+  exponential: [
+    { key: 'rate', label: 'Rate ×', step: 0.001 },
+    { key: 'floor', label: 'Floor', step: 0.01 },
+  ],
+  linear: [
+    { key: 'duration', label: 'Episodes', step: 50 },
+    { key: 'floor', label: 'Floor', step: 0.01 },
+  ],
+  step: [
+    { key: 'rate', label: 'Rate ×', step: 0.05 },
+    { key: 'interval', label: 'Every', step: 10 },
+    { key: 'floor', label: 'Floor', step: 0.01 },
+  ],
+  'inverse-time': [
+    { key: 'rate', label: 'k', step: 0.001 },
+    { key: 'floor', label: 'Floor', step: 0.01 },
+  ],
+};
+
+const ScheduleEditor: React.FC<{
+  label: string;
+  config: ScheduleConfig;
+  initial: number;
+  color: string;
+  disabled: boolean;
+  onChange: (config: ScheduleConfig) => void;
+}> = ({ label, config, initial, color, disabled, onChange }) => {
+  const points = useMemo(() => {
+    const values = downsample(scheduleCurve(config, initial, PREVIEW_EPISODES), PREVIEW_POINTS);
+    const max = Math.max(initial, ...values) || 1;
+    const stepX = CHART_WIDTH / Math.max(1, values.length - 1);
+    return values
+      .map((v, i) => `${(i * stepX).toFixed(1)},${(CHART_HEIGHT - (v / max) * CHART_HEIGHT).toFixed(1)}`)
+      .join(' ');
+  }, [config, initial]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center text-[10px]">
+        <span className="text-gray-400">{label}</span>
+        <select
+          disabled={disabled}
+          value={config.kind}
+          onChange={(e) => onChange(withScheduleKind(config, e.target.value as ScheduleKind))}
+          className="px-2 py-0.5 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-[10px] focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+        >
+          {SCHEDULE_KINDS.map(option => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      {FIELDS[config.kind].length > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          {FIELDS[config.kind].map(({ key, label: fieldLabel, step }) => (
+            <label key={key} className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase">
+              {fieldLabel}
+              <input
+                type="number"
+                step={step}
+                min="0"
+                disabled={disabled}
+                value={config[key]}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  onChange({ ...config, [key]: isNaN(value) ? 0 : Math.max(0, value) });
+                }}
+                className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+              />
+            </label>
+          ))}
+        </div>
+      )}
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-10 bg-gray-900 rounded"
+      >
+        <polyline points={points} fill="none" stroke={color} strokeWidth={1.5} />
+      </svg>
+      <p className="text-[9px] text-gray-500 leading-relaxed">
+        {SCHEDULE_KINDS.find(option => option.id === config.kind)?.description} Preview over {PREVIEW_EPISODES} episodes.
+      </p>
+    </div>
+  );
+};
+
+export const ScheduleSettings: React.FC<ScheduleSettingsProps> = ({
+  epsilonSchedule,
+  alphaSchedule,
+  initialEpsilon,
+  initialAlpha,
+  disabled,
+  onEpsilonChange,
+  onAlphaChange
+}) => {
+  return (
+    <div className={`p-4 rounded-lg border transition-all space-y-4 ${
+      disabled
+        ? 'bg-gray-900/50 border-gray-800 opacity-80'
+        : 'bg-gray-800 border-cyan-900/50 shadow-inner shadow-cyan-950'
+    }`}>
+      <div className="flex items-center gap-2 text-xs text-gray-400 uppercase font-bold">
+        <TrendingDown className="w-3 h-3" />
+        <span>Decay Schedules</span>
+      </div>
+      <ScheduleEditor
+        label="ε"
+        config={epsilonSchedule}
+        initial={initialEpsilon}
+        color="#fb923c"
+        disabled={disabled}
+        onChange={onEpsilonChange}
+      />
+      <ScheduleEditor
+        label="α"
+        config={alphaSchedule}
+        initial={initialAlpha}
+        color="#22d3ee"
+        disabled={disabled}
+        onChange={onAlphaChange}
+      />
+    </div>
+  );
+};
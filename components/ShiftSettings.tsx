@@ -0,0 +1,82 @@
+import React from 'react';
+import { Shuffle } from 'lucide-react';
+import { ShiftConfig, ShiftMode } from '../types';
+import { SHIFT_MODES } from '../services/EnvironmentEvents';
+import { SEED_RANGE } from '../services/SeededRandom';
+
+interface ShiftSettingsProps {
+  config: ShiftConfig;
+  disabled: boolean;
+  onChange: (config: ShiftConfig) => void;
+  // Whether the live run has already passed the shift episode
+  applied: boolean;
+  // No shifted layout exists for this maze, so the run keeps the original one
+  refused: boolean;
+}
+
+export const ShiftSettings: React.FC<ShiftSettingsProps> = ({ config, disabled, onChange, applied, refused }) => {
+  const numberInput = (key: 'episode' | 'seed', label: string, min: number, max: number = Infinity) => (
+    <label className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase">
+      {label}
+      <input
+        type="number"
+        min={min}
+        max={Number.isFinite(max) ? max : undefined}
+        disabled={disabled}
+        value={config[key]}
+        onChange={(e) => onChange({ ...config, [key]: Math.min(max, Math.max(min, parseInt(e.target.value) || min)) })}
+        className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+      />
+    </label>
+  );
+
+  return (
+    <div className={`p-4 rounded-lg border transition-all space-y-3 ${
+      disabled
+        ? 'bg-gray-900/50 border-gray-800 opacity-80'
+        : 'bg-gray-800 border-cyan-900/50 shadow-inner shadow-cyan-950'
+    }`}>
+      <div className="flex items-center gap-2 text-xs text-gray-400 uppercase font-bold">
+        <Shuffle className="w-3 h-3" />
+        <span>Maze Shift</span>
+      </div>
+      <label className="flex items-center gap-2 cursor-pointer text-[10px] font-bold uppercase text-gray-300">
+        <input
+          type="checkbox"
+          disabled={disabled}
+          checked={config.enabled}
+          onChange={(e) => onChange({ ...config, enabled: e.target.checked })}
+          className="accent-cyan-400"
+        />
+        Change the maze mid-training
+      </label>
+      {config.enabled && (
+        <>
+          <select
+            value={config.mode}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...config, mode: e.target.value as ShiftMode })}
+            className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+          >
+            {SHIFT_MODES.map(mode => (
+              <option key={mode.id} value={mode.id}>{mode.label}</option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            {numberInput('episode', 'At episode', 2)}
+            {config.mode === 'regenerate' && numberInput('seed', 'Maze seed', 0, SEED_RANGE - 1)}
+          </div>
+          <p className="text-[9px] text-gray-500 leading-relaxed">
+            {SHIFT_MODES.find(mode => mode.id === config.mode)?.description}
+            {applied && ' Already applied; reset the runner to restore the original maze.'}
+          </p>
+          {refused && !applied && (
+            <p className="text-[9px] text-red-400 leading-relaxed">
+              No wall on the route can close without opening a route as short as the old one, so this maze will not shift.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React from 'react';
+import { FlaskConical, Square } from 'lucide-react';
+import { EncoderKind, TransferConfig, TransferReport, TransferScore } from '../types';
+import { TrainProgress } from './BatchTrainingPanel';
+import { SEED_RANGE } from '../services/SeededRandom';
+
+interface TransferPanelProps {
+  config: TransferConfig;
+  encoder: EncoderKind;
+  progress: TrainProgress | null;
+  report: TransferReport | null;
+  onChange: (config: TransferConfig) => void;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+const FIELDS: { key: keyof TransferConfig; label: string; min: number; max?: number }[] = [
+  { key: 'trainMazes', label: 'Train mazes', min: 1 },
+  { key: 'testMazes', label: 'Held-out mazes', min: 1 },
+  { key: 'episodesPerMaze', label: 'Episodes each', min: 1 },
+  { key: 'seed', label: 'First seed', min: 0, max: SEED_RANGE - 1 },
+];
+
+const ScoreRow: React.FC<{ label: string; score: TransferScore }> = ({ label, score }) => (
+  <tr>
+    <td className="py-0.5 text-gray-400">{label}</td>
+    <td className="py-0.5 text-right text-cyan-300">{Math.round(score.successRate * 100)}%</td>
+    <td className="py-0.5 text-right text-cyan-300">{score.meanSteps === null ? '—' : score.meanSteps.toFixed(1)}</td>
+  </tr>
+);
+
+export const TransferPanel: React.FC<TransferPanelProps> = ({
+  config,
+  encoder,
+  progress,
+  report,
+  onChange,
+  onStart,
+  onCancel
+}) => {
+  const isRunning = progress !== null;
+  const percent = progress ? Math.round((progress.completed / progress.total) * 100) : 0;
+  const gap = report ? report.train.successRate - report.test.successRate : 0;
+
+  return (
+    <div className="p-4 bg-gray-800 rounded-lg border border-gray-700 space-y-3">
+      <div className="flex justify-between items-center text-xs text-gray-400 uppercase font-bold">
+        <span>Transfer Test</span>
+        <FlaskConical className="w-3 h-3" />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map(({ key, label, min, max = Infinity }) => (
+          <label key={key} className="flex flex-col gap-1 text-[9px] text-gray-500 uppercase">
+            {label}
+            <input
+              type="number"
+              min={min}
+              max={Number.isFinite(max) ? max : undefined}
+              disabled={isRunning}
+              value={config[key]}
+              onChange={(e) => onChange({ ...config, [key]: Math.min(max, Math.max(min, parseInt(e.target.value) || min)) })}
+              className="w-full px-2 py-1 bg-gray-900 border border-gray-700 rounded text-cyan-400 text-xs focus:outline-none focus:border-cyan-500 disabled:cursor-not-allowed"
+            />
+          </label>
+        ))}
+      </div>
+      {isRunning ? (
+        <button
+          onClick={onCancel}
+          className="w-full flex items-center justify-center gap-2 py-1.5 text-[10px] font-bold rounded bg-red-500/20 text-red-400 border border-red-500/50 uppercase"
+        >
+          <Square className="w-3 h-3" /> Cancel
+        </button>
+      ) : (
+        <button
+          onClick={onStart}
+          className="w-full flex items-center justify-center gap-2 py-1.5 text-[10px] font-bold rounded bg-cyan-600 hover:bg-cyan-500 text-white uppercase"
+        >
+          <FlaskConical className="w-3 h-3" /> Train and Evaluate
+        </button>
+      )}
+      {progress && (
+        <div className="space-y-1">
+          <div className="h-1.5 bg-gray-900 rounded overflow-hidden">
+            <div className="h-full bg-cyan-400 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-[9px] text-gray-500 uppercase">
+            {progress.completed} / {progress.total} training episodes
+          </p>
+        </div>
+      )}
+      {report && !isRunning && (
+        <>
+          <table className="w-full text-[10px]">
+            <thead>
+              <tr className="text-[9px] text-gray-500 uppercase">
+                <th className="text-left font-normal">Greedy</th>
+                <th className="text-right font-normal">Solved</th>
+                <th className="text-right font-normal">Mean steps</th>
+              </tr>
+            </thead>
+            <tbody>
+              <ScoreRow label="Training mazes" score={report.train} />
+              <ScoreRow label="Held-out mazes" score={report.test} />
+            </tbody>
+          </table>
+          <p className="text-[9px] text-gray-500 leading-relaxed">
+            {report.states} states learned. {gap > 0
+              ? `Solves ${Math.round(gap * 100)} points more of the mazes it trained on: it has fitted those layouts.`
+              : 'No gap between seen and unseen mazes.'}
+          </p>
+        </>
+      )}
+      {encoder === 'position' && (
+        <p className="text-[9px] text-gray-500 leading-relaxed">
+          With the full position as state a new maze reuses the moves learned for the same coordinates in the training mazes, which rarely fit its walls; pick a local view under Agent Senses to test transfer.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  ALGORITHMS,
+  createAgent,
+  deserializeAgent,
+  untrainedCopy,
+} from "./AgentFactory";
+import { QLearningAgent } from "./QLearningAgent";
+import { SarsaAgent } from "./SarsaAgent";
+import { ExpectedSarsaAgent } from "./ExpectedSarsaAgent";
+import { DoubleQLearningAgent } from "./DoubleQLearningAgent";
+import { SarsaLambdaAgent } from "./SarsaLambdaAgent";
+
+describe("AgentFactory", () => {
+  describe("createAgent", () => {
+    it("should create the agent class for each algorithm", () => {
+      expect(createAgent("q-learning", 0.1, 0.9, 0.2)).toBeInstanceOf(
+        QLearningAgent
+      );
+      expect(createAgent("sarsa", 0.1, 0.9, 0.2)).toBeInstanceOf(SarsaAgent);
+      expect(createAgent("expected-sarsa", 0.1, 0.9, 0.2)).toBeInstanceOf(
+        ExpectedSarsaAgent
+      );
+      expect(createAgent("double-q", 0.1, 0.9, 0.2)).toBeInstanceOf(
+        DoubleQLearningAgent
+      );
+    });
+
+    it("should apply the learning parameters", () => {
+      const agent = createAgent("sarsa", 0.3, 0.8, 0.5);
+      expect(agent.alpha).toBe(0.3);
+      expect(agent.gamma).toBe(0.8);
+      expect(agent.epsilon).toBe(0.5);
+      expect(agent.initialEpsilon).toBe(0.5);
+    });
+
+    it("should have a picker entry for every algorithm", () => {
+      ALGORITHMS.forEach(({ id }) => {
+        expect(createAgent(id, 0.1, 0.9, 0.1).algorithm).toBe(id);
+      });
+    });
+  });
+
+  describe("deserializeAgent", () => {
+    it("should round-trip a serialized agent", () => {
+      const agent = createAgent("expected-sarsa", 0.2, 0.95, 0.4);
+      agent.epsilon = 0.3;
+      agent.qTable["1,1"] = [1, 2, 3, 4];
+
+      const restored = deserializeAgent(agent.serialize());
+
+      expect(restored).toBeInstanceOf(ExpectedSarsaAgent);
+      expect(restored.serialize()).toEqual(agent.serialize());
+    });
+
+    it("should restore λ and the trace kind", () => {
+      const agent = createAgent("sarsa-lambda", 0.1, 0.9, 0.2);
+      (agent as SarsaLambdaAgent).setTraceParameters(0.6, "accumulating");
+
+      const restored = deserializeAgent(agent.serialize()) as SarsaLambdaAgent;
+
+      expect(restored).toBeInstanceOf(SarsaLambdaAgent);
+      expect(restored.lambda).toBe(0.6);
+      expect(restored.traceKind).toBe("accumulating");
+    });
+
+    it("should restore both decay schedules", () => {
+      const agent = createAgent("q-learning", 0.4, 0.9, 0.5);
+      agent.setSchedules(
+        { kind: "linear", floor: 0.05, rate: 1, duration: 300, interval: 10 },
+        { kind: "step", floor: 0.01, rate: 0.5, duration: 100, interval: 50 }
+      );
+      agent.decay();
+
+      const restored = deserializeAgent(agent.serialize());
+
+      expect(restored.epsilonSchedule.kind).toBe("linear");
+      expect(restored.alphaSchedule).toEqual(agent.alphaSchedule);
+      expect(restored.initialAlpha).toBe(0.4);
+      expect(restored.episodesDecayed).toBe(1);
+    });
+
+    it("should map older minEpsilon and decayRate onto the ε schedule", () => {
+      const restored = deserializeAgent({
+        initialEpsilon: 0.3,
+        minEpsilon: 0.2,
+        decayRate: 0.9,
+        qTable: {},
+      });
+
+      expect(restored.epsilonSchedule.kind).toBe("exponential");
+      expect(restored.epsilonSchedule.floor).toBe(0.2);
+      expect(restored.epsilonSchedule.rate).toBe(0.9);
+    });
+
+    it("should restore the exploration policy and its state", () => {
+      const agent = createAgent("sarsa", 0.1, 0.9, 0.1);
+      agent.setExploration({
+        ...agent.exploration,
+        strategy: "ucb1",
+        ucbC: 1.5,
+        initialQ: 20,
+      });
+      agent.update({ x: 0, y: 0 }, 1, -1, { x: 1, y: 0 }, false, 0);
+
+      const restored = deserializeAgent(agent.serialize());
+
+      expect(restored.exploration.strategy).toBe("ucb1");
+      expect(restored.exploration.initialQ).toBe(20);
+      expect(restored.actionCounts["0,0"]).toEqual([0, 1, 0, 0]);
+    });
+
+    it("should continue the exploration sequence where the export left off", () => {
+      const agent = createAgent("q-learning", 0.1, 0.9, 1, 21);
+      agent.chooseAction({ x: 0, y: 0 });
+
+      const restored = deserializeAgent(agent.serialize());
+
+      expect(restored.seed).toBe(21);
+      const next = () => restored.chooseAction({ x: 0, y: 0 });
+      const expected = () => agent.chooseAction({ x: 0, y: 0 });
+      for (let i = 0; i < 10; i++) expect(next()).toBe(expected());
+    });
+
+    it("should default to Q-learning for older exports", () => {
+      const restored = deserializeAgent({
+        alpha: 0.5,
+        gamma: 0.7,
+        initialEpsilon: 0.3,
+        qTable: { "0,0": [1, 0, 0, 0] },
+      });
+
+      expect(restored).toBeInstanceOf(QLearningAgent);
+      expect(restored.alpha).toBe(0.5);
+      expect(restored.epsilon).toBe(0.3);
+      expect(restored.minEpsilon).toBe(0.01);
+      expect(restored.qTable["0,0"]).toEqual([1, 0, 0, 0]);
+    });
+  });
+
+  describe("untrainedCopy", () => {
+    it("should keep the settings but nothing learned", () => {
+      const agent = createAgent("sarsa-lambda", 0.3, 0.8, 0.5, 9);
+      (agent as SarsaLambdaAgent).setTraceParameters(0.7, "accumulating");
+      agent.qTable["2,2"] = [1, 2, 3, 4];
+      agent.epsilon = 0.1;
+
+      const copy = untrainedCopy(agent) as SarsaLambdaAgent;
+
+      expect(copy).toBeInstanceOf(SarsaLambdaAgent);
+      expect(copy.alpha).toBe(0.3);
+      expect(copy.lambda).toBe(0.7);
+      expect(copy.epsilon).toBe(0.5);
+      expect(copy.qTable).toEqual({});
+      expect(agent.qTable["2,2"]).toEqual([1, 2, 3, 4]);
+    });
+  });
+});
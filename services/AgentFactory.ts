@@ -0,0 +1,89 @@
+import { Algorithm, SerializedAgent } from '../types';
+import { TabularAgent } from './TabularAgent';
+import { QLearningAgent } from './QLearningAgent';
+import { SarsaAgent } from './SarsaAgent';
+import { ExpectedSarsaAgent } from './ExpectedSarsaAgent';
+import { DoubleQLearningAgent } from './DoubleQLearningAgent';
+import { QLambdaAgent } from './QLambdaAgent';
+import { SarsaLambdaAgent } from './SarsaLambdaAgent';
+import { DynaQAgent } from './DynaQAgent';
+
+export const ALGORITHMS: { id: Algorithm; label: string; description: string }[] = [
+  { id: 'q-learning', label: 'Q-Learning', description: 'Off-policy: bootstraps from the best next action.' },
+  { id: 'sarsa', label: 'SARSA', description: 'On-policy: bootstraps from the action it actually takes next.' },
+  { id: 'expected-sarsa', label: 'Expected SARSA', description: 'Averages the next value over the ε-greedy policy.' },
+  { id: 'double-q', label: 'Double Q-Learning', description: 'Two tables to curb over-optimistic value estimates.' },
+  { id: 'q-lambda', label: 'Q(λ)', description: 'Watkins: Q-learning with eligibility traces, cut after exploratory moves.' },
+  { id: 'sarsa-lambda', label: 'SARSA(λ)', description: 'SARSA with eligibility traces that credit the whole recent path.' },
+  { id: 'dyna-q', label: 'Dyna-Q', description: 'Model-based: replays remembered moves as extra planning updates after every step.' },
+];
+
+// Algorithms built on eligibility traces, which take a λ and trace kind
+export const TRACE_ALGORITHMS: Algorithm[] = ['q-lambda', 'sarsa-lambda'];
+
+export function createAgent(
+  algorithm: Algorithm,
+  alpha: number,
+  gamma: number,
+  epsilon: number,
+  seed?: number
+): TabularAgent {
+  switch (algorithm) {
+    case 'sarsa':
+      return new SarsaAgent(alpha, gamma, epsilon, seed);
+    case 'expected-sarsa':
+      return new ExpectedSarsaAgent(alpha, gamma, epsilon, seed);
+    case 'double-q':
+      return new DoubleQLearningAgent(alpha, gamma, epsilon, seed);
+    case 'q-lambda':
+      return new QLambdaAgent(alpha, gamma, epsilon, seed);
+    case 'sarsa-lambda':
+      return new SarsaLambdaAgent(alpha, gamma, epsilon, seed);
+    case 'dyna-q':
+      return new DynaQAgent(alpha, gamma, epsilon, seed);
+    default:
+      return new QLearningAgent(alpha, gamma, epsilon, seed);
+  }
+}
+
+// Older exports only carry the Q-table, so missing fields fall back to the agent defaults
+export function deserializeAgent(data: Partial<SerializedAgent>): TabularAgent {
+  const agent = createAgent(
+    data.algorithm ?? 'q-learning',
+    data.alpha ?? 0.1,
+    data.gamma ?? 0.9,
+    data.initialEpsilon ?? 0.1,
+    data.seed
+  );
+  agent.restore({
+    ...agent.serialize(),
+    ...data,
+    epsilon: data.epsilon ?? data.initialEpsilon ?? agent.epsilon,
+  } as SerializedAgent);
+  return agent;
+}
+
+// The same settings with nothing learned, for training a separate copy such as the transfer evaluation
+export function untrainedCopy(agent: TabularAgent): TabularAgent {
+  const {
+    algorithm, alpha, initialAlpha, gamma, initialEpsilon, minEpsilon, decayRate, seed,
+    exploration, epsilonSchedule, alphaSchedule, lambda, traceKind, planning,
+  } = agent.serialize();
+  return deserializeAgent({
+    algorithm,
+    alpha: initialAlpha ?? alpha,
+    gamma,
+    initialEpsilon,
+    minEpsilon,
+    decayRate,
+    seed,
+    rngState: seed,
+    exploration,
+    temperature: exploration?.temperature,
+    epsilonSchedule,
+    alphaSchedule,
+    lambda,
+    traceKind,
+    planning,
+  });
+}
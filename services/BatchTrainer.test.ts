@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { BatchTrainer } from "./BatchTrainer";
+import { QLearningAgent } from "./QLearningAgent";
+import { DEFAULT_DYNAMICS, DEFAULT_REWARDS, MazeEnvironment } from "./MazeEnvironment";
+import { MazeGenerator } from "./MazeGenerator";
+import { EpisodeRecorder, replayTrajectory } from "./EpisodeRecorder";
+import { MazeCell } from "../types";
+
+// 4x1 corridor from (0,0) to (3,0)
+const corridor: MazeCell[][] = [
+  Array.from({ length: 4 }, (_, x) => ({ x, y: 0, isWall: false })),
+];
+
+describe("BatchTrainer", () => {
+  let agent: QLearningAgent;
+  let env: MazeEnvironment;
+  let trainer: BatchTrainer;
+
+  beforeEach(() => {
+    agent = new QLearningAgent(0.5, 0.9, 0.3);
+    env = new MazeEnvironment(corridor, { x: 0, y: 0 }, { x: 3, y: 0 }, 50);
+    trainer = new BatchTrainer(agent, env);
+  });
+
+  describe("runEpisode", () => {
+    it("should run until the goal is reached", () => {
+      agent.epsilon = 0;
+      agent.qTable = {
+        "0,0": [0, 1, 0, 0],
+        "1,0": [0, 1, 0, 0],
+        "2,0": [0, 1, 0, 0],
+      };
+
+      const result = trainer.runEpisode();
+
+      expect(result.success).toBe(true);
+      expect(result.steps).toBe(3);
+      expect(result.totalReward).toBe(-1 + -1 + 1000);
+    });
+
+    it("should stop at the step limit when the goal is never reached", () => {
+      agent.epsilon = 0;
+      agent.alpha = 0;
+      agent.qTable["0,0"] = [1, 0, 0, 0];
+      env.maxSteps = 5;
+
+      const result = trainer.runEpisode();
+
+      expect(result.success).toBe(false);
+      expect(result.steps).toBe(5);
+    });
+
+    it("should count wall hits and record the episode's epsilon", () => {
+      agent.epsilon = 0;
+      agent.alpha = 0;
+      agent.qTable["0,0"] = [1, 0, 0, 0];
+      env.maxSteps = 4;
+
+      const result = trainer.runEpisode();
+
+      expect(result.wallHits).toBe(4);
+      expect(result.epsilon).toBe(0);
+    });
+
+    it("should decay curiosity once per episode", () => {
+      const before = agent.epsilon;
+      trainer.runEpisode();
+      expect(agent.epsilon).toBeCloseTo(before * agent.decayRate);
+    });
+
+    it("should update the Q-table", () => {
+      trainer.runEpisode();
+      expect(Object.keys(agent.qTable).length).toBeGreaterThan(0);
+    });
+  });
+
+  describe("runGreedyEpisode", () => {
+    it("should follow the greedy policy without learning", () => {
+      agent.qTable = {
+        "0,0": [0, 1, 0, 0],
+        "1,0": [0, 1, 0, 0],
+        "2,0": [0, 1, 0, 0],
+      };
+      const before = JSON.stringify(agent.qTable);
+      const epsilon = agent.epsilon;
+
+      const result = trainer.runGreedyEpisode();
+
+      expect(result).toMatchObject({ steps: 3, epsilon: 0, success: true });
+      expect(JSON.stringify(agent.qTable)).toBe(before);
+      expect(agent.epsilon).toBe(epsilon);
+    });
+  });
+
+  describe("run", () => {
+    it("should run the requested number of episodes", () => {
+      const summary = trainer.run(20);
+      expect(summary.episodes).toBe(20);
+      expect(summary.successes).toBeGreaterThan(0);
+    });
+
+    it("should keep every episode's result", () => {
+      const summary = trainer.run(5);
+      expect(summary.results).toHaveLength(5);
+      expect(summary.successes).toBe(
+        summary.results.filter((r) => r.success).length
+      );
+    });
+
+    it("should learn the shortest route through the corridor", () => {
+      const summary = trainer.run(200);
+      expect(summary.bestStepCount).toBe(3);
+    });
+
+    it("should evaluate the greedy policy after every N episodes", () => {
+      const summary = new BatchTrainer(agent, env, undefined, 6).run(20, undefined, 10, 10);
+
+      // Episodes 6-25 finish, so evaluations follow episodes 10 and 20
+      expect(summary.evaluations.map((e) => e.episode)).toEqual([10, 20]);
+      expect(summary.results).toHaveLength(20);
+    });
+
+    it("should train exactly the same whether or not it evaluates along the way", () => {
+      const train = (evalEvery: number) => {
+        const seeded = new QLearningAgent(0.5, 0.9, 0.3, 7);
+        const slippery = new MazeEnvironment(
+          corridor,
+          { x: 0, y: 0 },
+          { x: 3, y: 0 },
+          50,
+          DEFAULT_REWARDS,
+          { ...DEFAULT_DYNAMICS, slipProbability: 0.3 },
+          11
+        );
+        const { results } = new BatchTrainer(seeded, slippery).run(30, undefined, 10, evalEvery);
+        return { results, qTable: seeded.qTable };
+      };
+
+      expect(train(3)).toEqual(train(0));
+    });
+
+    it("should not evaluate when the interval is 0", () => {
+      expect(trainer.run(10).evaluations).toEqual([]);
+    });
+
+    it("should report progress at the given interval and at the end", () => {
+      const onProgress = vi.fn();
+      trainer.run(25, onProgress, 10);
+      expect(onProgress.mock.calls.map((call) => call[0])).toEqual([
+        10, 20, 25,
+      ]);
+    });
+
+    it("should record each episode's actions numbered from the first episode", () => {
+      const recorder = new EpisodeRecorder();
+      const summary = new BatchTrainer(agent, env, recorder, 11).run(5);
+      const recordings = recorder.getRecordings();
+
+      expect(recordings.map((r) => r.episode)).toEqual([11, 12, 13, 14, 15]);
+      recordings.forEach((recording, i) => {
+        expect(recording.steps).toBe(summary.results[i].steps);
+        const path = replayTrajectory(
+          corridor,
+          { x: 0, y: 0 },
+          { x: 3, y: 0 },
+          recording.actions
+        );
+        if (recording.success) expect(path[path.length - 1]).toEqual({ x: 3, y: 0 });
+      });
+    });
+
+    it("should record where slips really took the agent", () => {
+      const slippery = new MazeEnvironment(
+        corridor,
+        { x: 0, y: 0 },
+        { x: 3, y: 0 },
+        50,
+        undefined,
+        { slipProbability: 0.5, iceSlipProbability: 0 },
+        4
+      );
+      const recorder = new EpisodeRecorder();
+      new BatchTrainer(agent, slippery, recorder).run(5);
+
+      const successes = recorder.getRecordings().filter((r) => r.success);
+      expect(successes.length).toBeGreaterThan(0);
+      successes.forEach((recording) => {
+        const path = replayTrajectory(
+          corridor,
+          { x: 0, y: 0 },
+          { x: 3, y: 0 },
+          recording.actions
+        );
+        expect(path[path.length - 1]).toEqual({ x: 3, y: 0 });
+      });
+    });
+
+    it("should replay identical runs from the same agent seed", () => {
+      const grid = new MazeGenerator(11, 11).generate();
+      const train = (seed: number) => {
+        const seeded = new QLearningAgent(0.5, 0.9, 0.3, seed);
+        const maze = new MazeEnvironment(
+          grid,
+          { x: 0, y: 0 },
+          { x: 10, y: 10 },
+          300
+        );
+        const summary = new BatchTrainer(seeded, maze).run(30);
+        return { results: summary.results, qTable: seeded.qTable };
+      };
+
+      expect(train(7)).toEqual(train(7));
+      expect(train(7).results).not.toEqual(train(8).results);
+    });
+
+    it("should switch to the shifted layout at the shift episode", () => {
+      agent.epsilon = 0;
+      agent.alpha = 0;
+      agent.qTable = {
+        "0,0": [0, 1, 0, 0],
+        "1,0": [0, 1, 0, 0],
+        "2,0": [0, 1, 0, 0],
+      };
+      const blocked = corridor.map((row) =>
+        row.map((cell) => ({ ...cell, isWall: cell.x === 2 }))
+      );
+      const summary = new BatchTrainer(agent, env, undefined, 1, {
+        episode: 3,
+        grid: blocked,
+      }).run(3);
+
+      expect(summary.results.map((r) => r.success)).toEqual([true, true, false]);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { Action, Agent, BatchSummary, EpisodeResult, EvalRecord, MazeShift } from '../types';
+import { MazeEnvironment } from './MazeEnvironment';
+import { EpisodeRecorder } from './EpisodeRecorder';
+
+// Runs whole episodes back to back with no rendering, used by the background worker
+export class BatchTrainer {
+  private agent: Agent;
+  private env: MazeEnvironment;
+  private recorder?: EpisodeRecorder;
+  private episode: number;
+  private shift?: MazeShift;
+
+  constructor(
+    agent: Agent,
+    env: MazeEnvironment,
+    recorder?: EpisodeRecorder,
+    firstEpisode: number = 1,
+    shift?: MazeShift
+  ) {
+    this.agent = agent;
+    this.env = env;
+    this.recorder = recorder;
+    this.episode = firstEpisode;
+    this.shift = shift;
+  }
+
+  public runEpisode(): EpisodeResult {
+    if (this.shift && this.episode === this.shift.episode) {
+      this.env.setGrid(this.shift.grid);
+      if (this.recorder) this.recorder.shifted = true;
+    }
+    let state = this.env.reset();
+    let action = this.agent.chooseAction(state);
+    let totalReward = 0;
+    let wallHits = 0;
+    const epsilon = this.agent.epsilon;
+
+    while (true) {
+      const { nextState, reward, done, truncated, info } = this.env.step(action);
+      this.recorder?.record(info.move);
+      const nextAction = this.agent.learnAndChoose(state, action, reward, nextState, done);
+      totalReward += reward;
+      if (info.hitWall) wallHits += 1;
+
+      if (done || truncated) {
+        // Same schedule as the live loop: curiosity decays once per finished episode
+        this.agent.decay();
+        this.recorder?.finish(this.episode, info.reachedGoal, totalReward);
+        this.episode += 1;
+        return { steps: info.step, totalReward, epsilon, success: info.reachedGoal, wallHits };
+      }
+      state = nextState;
+      action = nextAction as Action;
+    }
+  }
+
+  // Follows the greedy policy (ε = 0) for one episode without learning or decaying anything
+  public runGreedyEpisode(): EpisodeResult {
+    let state = this.env.reset();
+    let totalReward = 0;
+    let wallHits = 0;
+
+    while (true) {
+      const { nextState, reward, done, truncated, info } = this.env.step(this.agent.getGreedyAction(state));
+      totalReward += reward;
+      if (info.hitWall) wallHits += 1;
+      if (done || truncated) {
+        return { steps: info.step, totalReward, epsilon: 0, success: info.reachedGoal, wallHits };
+      }
+      state = nextState;
+    }
+  }
+
+  // Greedy episode tagged with the number of training episodes finished so far. It runs on a copy of the
+  // maze with its own slip draws, so evaluating leaves the training run exactly as it would have been
+  public evaluate(): EvalRecord {
+    const env = this.env.copy(this.agent.seed + this.episode);
+    const { steps, totalReward, success } = new BatchTrainer(this.agent, env).runGreedyEpisode();
+    return { episode: this.episode - 1, steps, totalReward, success };
+  }
+
+  public run(
+    episodes: number,
+    onProgress?: (completed: number) => void,
+    progressEvery: number = 10,
+    evalEvery: number = 0
+  ): BatchSummary {
+    const summary: BatchSummary = { episodes: 0, successes: 0, bestStepCount: null, results: [], evaluations: [] };
+
+    for (let i = 0; i < episodes; i++) {
+      const result = this.runEpisode();
+      summary.episodes += 1;
+      summary.results.push(result);
+      if (evalEvery > 0 && (this.episode - 1) % evalEvery === 0) {
+        summary.evaluations.push(this.evaluate());
+      }
+      if (result.success) {
+        summary.successes += 1;
+        summary.bestStepCount =
+          summary.bestStepCount === null
+            ? result.steps
+            : Math.min(summary.bestStepCount, result.steps);
+      }
+      if (onProgress && (summary.episodes % progressEvery === 0 || summary.episodes === episodes)) {
+        onProgress(summary.episodes);
+      }
+    }
+
+    return summary;
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_LINKS,
+  MAX_PICKUPS,
+  isGateOpen,
+  patrolPosition,
+  patrolsOf,
+  pickupBits,
+} from "./CellTypes";
+import { MazeCell } from "../types";
+
+const row = (cells: Partial<MazeCell>[]): MazeCell[][] => [
+  cells.map((cell, x) => ({ x, y: 0, isWall: false, ...cell })),
+];
+
+describe("CellTypes", () => {
+  describe("pickupBits", () => {
+    it("should number one-shot goals and collectibles after the key links", () => {
+      const bits = pickupBits(
+        row([
+          { cellType: "collectible" },
+          { cellType: "extra-goal" },
+          { cellType: "extra-goal", terminal: false },
+        ])
+      );
+
+      expect([...bits.entries()]).toEqual([
+        ["0,0", MAX_LINKS],
+        ["2,0", MAX_LINKS + 1],
+      ]);
+    });
+
+    it("should ignore pickups past the cap", () => {
+      const grid = row(
+        Array.from({ length: MAX_PICKUPS + 2 }, () => ({ cellType: "collectible" as const }))
+      );
+
+      expect(pickupBits(grid).size).toBe(MAX_PICKUPS);
+    });
+  });
+
+  describe("patrols", () => {
+    it("should walk the waypoints in order and back", () => {
+      const [patrol] = patrolsOf(
+        row([
+          { cellType: "patrol", order: 2, period: 1 },
+          { cellType: "patrol", order: 0, period: 1 },
+          { cellType: "patrol", order: 1 },
+        ])
+      );
+
+      const xs = Array.from({ length: 6 }, (_, step) => patrolPosition(patrol, step).x);
+      expect(xs).toEqual([1, 2, 0, 2, 1, 2]);
+    });
+
+    it("should keep patrols with different links apart", () => {
+      const patrols = patrolsOf(
+        row([
+          { cellType: "patrol", link: 0 },
+          { cellType: "patrol", link: 1 },
+        ])
+      );
+
+      expect(patrols.map((p) => p.link)).toEqual([0, 1]);
+    });
+  });
+
+  describe("isGateOpen", () => {
+    it("should start closed and flip every period", () => {
+      const gate: MazeCell = { x: 0, y: 0, isWall: false, cellType: "gate", period: 3 };
+
+      expect([0, 2, 3, 5, 6].map((step) => isGateOpen(gate, step))).toEqual([
+        false,
+        false,
+        true,
+        true,
+        false,
+      ]);
+    });
+  });
+});
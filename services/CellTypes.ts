@@ -0,0 +1,109 @@
+import { Action, CellType, MazeCell, Position } from '../types';
+
+export const CELL_TYPES: { id: CellType; label: string; description: string }[] = [
+  { id: 'ice', label: 'Ice', description: 'Moves starting here slip more often.' },
+  { id: 'mud', label: 'Mud', description: 'Entering costs extra on top of the step cost.' },
+  { id: 'trap', label: 'Trap', description: 'Large penalty and the episode ends.' },
+  { id: 'one-way', label: 'One-Way', description: 'Can only be crossed in the arrow direction.' },
+  { id: 'teleporter', label: 'Teleporter', description: 'Stepping on one jumps to its partner. Place them in pairs.' },
+  { id: 'key', label: 'Key', description: 'Picked up on entry; opens the doors of the same colour.' },
+  { id: 'door', label: 'Door', description: 'Blocks like a wall until its key is held.' },
+  { id: 'extra-goal', label: 'Extra Goal', description: 'A goal with its own reward. Terminal ones end the episode; others pay once and play on.' },
+  { id: 'collectible', label: 'Collectible', description: 'Pays its reward once; picking up the last one ends the episode.' },
+  { id: 'gate', label: 'Gate', description: 'Starts each episode closed, then opens and closes every N steps.' },
+  { id: 'patrol', label: 'Patrol', description: 'Click waypoints in order; a hazard walks them back and forth and ends the episode on contact.' },
+];
+
+// Key bits are packed into the state, so links stay small
+export const MAX_LINKS = 4;
+
+// Shared by both ends of a teleporter pair, and by a key and its doors
+export const LINK_COLORS = ['#a855f7', '#22d3ee', '#f97316', '#84cc16'];
+
+export const linkColor = (link: number = 0): string => LINK_COLORS[link % LINK_COLORS.length];
+
+export const cellTypeOf = (cell: MazeCell): CellType => (cell.isWall ? 'floor' : cell.cellType ?? 'floor');
+
+// Extra goals and collectibles get a bit each after the key links, so there is a cap on them too
+export const MAX_PICKUPS = 8;
+
+export const DEFAULT_TILE_REWARD = 100;
+
+// The main goal keeps the classic gold; extra goals take these in placement order
+export const GOAL_COLORS = ['#f472b6', '#34d399', '#60a5fa', '#f87171', '#c084fc', '#facc15'];
+
+export const goalColor = (index: number): string => GOAL_COLORS[index % GOAL_COLORS.length];
+
+// Tiles that pay once per episode and so have to be remembered in the state
+export const isPickup = (cell: MazeCell): boolean => {
+  const type = cellTypeOf(cell);
+  return type === 'collectible' || (type === 'extra-goal' && cell.terminal === false);
+};
+
+// The Position.keys bit of each pickup, by "x,y", in row order
+export const pickupBits = (grid: MazeCell[][]): Map<string, number> => {
+  const bits = new Map<string, number>();
+  grid.flat().filter(isPickup).slice(0, MAX_PICKUPS).forEach((cell, i) => {
+    bits.set(`${cell.x},${cell.y}`, MAX_LINKS + i);
+  });
+  return bits;
+};
+
+// Each linked teleporter's partner, by "x,y". A link with only one teleporter, or more than two,
+// leaves those tiles as plain floor
+export const teleporterPartners = (grid: MazeCell[][]): Map<string, Position> => {
+  const ends: Record<number, Position[]> = {};
+  grid.flat().forEach(cell => {
+    if (!cell.isWall && cell.cellType === 'teleporter' && cell.link !== undefined) {
+      (ends[cell.link] ??= []).push({ x: cell.x, y: cell.y });
+    }
+  });
+  const partners = new Map<string, Position>();
+  Object.values(ends).forEach(pair => {
+    if (pair.length !== 2) return;
+    partners.set(`${pair[0].x},${pair[0].y}`, pair[1]);
+    partners.set(`${pair[1].x},${pair[1].y}`, pair[0]);
+  });
+  return partners;
+};
+
+// One-way tiles only let moves along their arrow on and off them
+export const againstOneWay = (cell: MazeCell | undefined, move: Action): boolean =>
+  cell?.cellType === 'one-way' && (cell.direction ?? Action.UP) !== move;
+
+export const DEFAULT_PERIOD = 4;
+
+// Gates start closed and flip every period steps
+export const isGateOpen = (cell: MazeCell, step: number): boolean =>
+  Math.floor(step / Math.max(1, cell.period ?? DEFAULT_PERIOD)) % 2 === 1;
+
+export type Patrol = { link: number; path: Position[]; period: number };
+
+// Each patrol link's waypoints in order; the first waypoint sets the pace
+export const patrolsOf = (grid: MazeCell[][]): Patrol[] => {
+  const waypoints: Record<number, MazeCell[]> = {};
+  grid.flat().forEach(cell => {
+    if (cellTypeOf(cell) === 'patrol') (waypoints[cell.link ?? 0] ??= []).push(cell);
+  });
+  return Object.entries(waypoints).map(([link, cells]) => {
+    const path = [...cells].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    return {
+      link: Number(link),
+      path: path.map(cell => ({ x: cell.x, y: cell.y })),
+      period: Math.max(1, path[0].period ?? DEFAULT_PERIOD),
+    };
+  });
+};
+
+// Walks to the last waypoint and back, one waypoint every period steps
+export const patrolPosition = ({ path, period }: Patrol, step: number): Position => {
+  if (path.length === 1) return path[0];
+  const cycle = 2 * path.length - 2;
+  const index = Math.floor(step / period) % cycle;
+  return path[index < path.length ? index : cycle - index];
+};
+
+// Types that pair up through `link`
+export const isLinked = (type: CellType): boolean =>
+  type === 'teleporter' || type === 'key' || type === 'door' || type === 'patrol';
+
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { DoubleQLearningAgent } from "./DoubleQLearningAgent";
+import { SeededRandom } from "./SeededRandom";
+import { Action, Position } from "../types";
+
+describe("DoubleQLearningAgent", () => {
+  let agent: DoubleQLearningAgent;
+  const state: Position = { x: 1, y: 1 };
+  const nextState: Position = { x: 2, y: 1 };
+
+  beforeEach(() => {
+    agent = new DoubleQLearningAgent(0.5, 0.9, 0.1);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should report its algorithm", () => {
+    expect(agent.algorithm).toBe("double-q");
+  });
+
+  describe("update", () => {
+    it("should update table A using table B to evaluate A's greedy action", () => {
+      vi.spyOn(SeededRandom.prototype, "next").mockReturnValue(0.1);
+      agent.qTableA["2,1"] = [0, 4, 0, 0];
+      agent.qTableB["2,1"] = [8, 2, 0, 0];
+
+      agent.update(state, Action.RIGHT, 0, nextState);
+
+      // A's argmax is RIGHT, B values it at 2: 0 + 0.5 * (0.9 * 2) = 0.9
+      expect(agent.qTableA["1,1"][Action.RIGHT]).toBeCloseTo(0.9);
+      expect(agent.qTableB["1,1"][Action.RIGHT]).toBe(0);
+    });
+
+    it("should update table B using table A when the coin lands the other way", () => {
+      vi.spyOn(SeededRandom.prototype, "next").mockReturnValue(0.9);
+      agent.qTableA["2,1"] = [0, 4, 0, 0];
+      agent.qTableB["2,1"] = [8, 2, 0, 0];
+
+      agent.update(state, Action.RIGHT, 0, nextState);
+
+      // B's argmax is UP, A values it at 0
+      expect(agent.qTableB["1,1"][Action.RIGHT]).toBeCloseTo(0);
+      agent.update(state, Action.RIGHT, 10, nextState, true);
+      expect(agent.qTableB["1,1"][Action.RIGHT]).toBeCloseTo(5);
+    });
+
+    it("should keep the combined table at the average of both estimates", () => {
+      vi.spyOn(SeededRandom.prototype, "next").mockReturnValue(0.1);
+
+      agent.update(state, Action.DOWN, 10, nextState, true);
+
+      expect(agent.qTableA["1,1"][Action.DOWN]).toBeCloseTo(5);
+      expect(agent.getQValues(state)[Action.DOWN]).toBeCloseTo(2.5);
+    });
+  });
+
+  describe("table management", () => {
+    it("should seed both estimates from setQTable", () => {
+      agent.setQTable({ "1,1": [1, 2, 3, 4] });
+
+      expect(agent.qTableA["1,1"]).toEqual([1, 2, 3, 4]);
+      expect(agent.qTableB["1,1"]).toEqual([1, 2, 3, 4]);
+      agent.qTableA["1,1"][0] = 9;
+      expect(agent.qTableB["1,1"][0]).toBe(1);
+    });
+
+    it("should clear both estimates on reset", () => {
+      agent.setQTable({ "1,1": [1, 2, 3, 4] });
+      agent.resetQTable();
+
+      expect(agent.qTableA).toEqual({});
+      expect(agent.qTableB).toEqual({});
+    });
+
+    it("should round-trip both estimates through serialize and restore", () => {
+      agent.qTableA["1,1"] = [1, 0, 0, 0];
+      agent.qTableB["1,1"] = [3, 0, 0, 0];
+      agent.qTable["1,1"] = [2, 0, 0, 0];
+
+      const copy = new DoubleQLearningAgent(0.1, 0.9, 0.1);
+      copy.restore(agent.serialize());
+
+      expect(copy.qTableA["1,1"]).toEqual([1, 0, 0, 0]);
+      expect(copy.qTableB["1,1"]).toEqual([3, 0, 0, 0]);
+      expect(copy.qTable["1,1"]).toEqual([2, 0, 0, 0]);
+      expect(copy.alpha).toBe(0.5);
+    });
+
+    it("should record visits and TD errors for the inspector", () => {
+      agent.update({ x: 1, y: 1 }, Action.DOWN, 4, { x: 1, y: 2 }, true);
+
+      expect(agent.visitCounts["1,1"]).toBe(1);
+      expect(agent.lastTdErrors["1,1"]).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { Action, Position, QTable, SerializedAgent } from '../types';
+import { TabularAgent } from './TabularAgent';
+
+const cloneTable = (table: QTable): QTable =>
+  Object.fromEntries(Object.entries(table).map(([key, values]) => [key, [...values]]));
+
+// Two independent estimates cancel out the maximisation bias of plain Q-learning.
+// qTable holds their average, which drives action selection and the heatmap.
+export class DoubleQLearningAgent extends TabularAgent {
+  public readonly algorithm = 'double-q' as const;
+
+  public qTableA: QTable = {};
+  public qTableB: QTable = {};
+
+  private getTableValues(table: QTable, pos: Position): number[] {
+    const key = this.getStateKey(pos);
+    if (!table[key]) {
+      table[key] = this.initialQValues();
+    }
+    return table[key];
+  }
+
+  public update(
+    state: Position,
+    action: Action,
+    reward: number,
+    nextState: Position,
+    done: boolean = false
+  ): void {
+    // Pick one table to update; the other one evaluates its greedy action
+    const updateA = this.rng.next() < 0.5;
+    const [selector, evaluator] = updateA ? [this.qTableA, this.qTableB] : [this.qTableB, this.qTableA];
+
+    let nextQ = 0;
+    if (!done) {
+      const selectorNext = this.getTableValues(selector, nextState);
+      const bestNext = selectorNext.indexOf(Math.max(...selectorNext));
+      nextQ = this.getTableValues(evaluator, nextState)[bestNext];
+    }
+
+    const values = this.getTableValues(selector, state);
+    const tdError = reward + this.gamma * nextQ - values[action];
+    values[action] += this.alpha * tdError;
+    this.recordUpdate(state, action, tdError);
+
+    const other = this.getTableValues(evaluator, state);
+    this.getQValues(state)[action] = (values[action] + other[action]) / 2;
+  }
+
+  public resetQTable(): void {
+    super.resetQTable();
+    this.qTableA = {};
+    this.qTableB = {};
+  }
+
+  public setQTable(newQTable: QTable): void {
+    this.qTable = cloneTable(newQTable);
+    this.qTableA = cloneTable(newQTable);
+    this.qTableB = cloneTable(newQTable);
+  }
+
+  public serialize(): SerializedAgent {
+    return { ...super.serialize(), qTableA: this.qTableA, qTableB: this.qTableB };
+  }
+
+  public restore(data: SerializedAgent): void {
+    super.restore(data);
+    if (data.qTableA && data.qTableB) {
+      this.qTableA = cloneTable(data.qTableA);
+      this.qTableB = cloneTable(data.qTableB);
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { DynaQAgent, DEFAULT_PLANNING } from "./DynaQAgent";
+import { Action, Position } from "../types";
+
+const cell = (x: number): Position => ({ x, y: 0 });
+
+describe("DynaQAgent", () => {
+  let agent: DynaQAgent;
+
+  beforeEach(() => {
+    agent = new DynaQAgent(0.1, 0.9, 0.1, 1);
+  });
+
+  it("should report its algorithm", () => {
+    expect(agent.algorithm).toBe("dyna-q");
+  });
+
+  describe("model", () => {
+    it("should keep the latest outcome of each state-action", () => {
+      agent.setPlanning({ ...DEFAULT_PLANNING, steps: 0 });
+      agent.update(cell(0), Action.RIGHT, -1, cell(1));
+      agent.update(cell(0), Action.RIGHT, -5, cell(0));
+      agent.update(cell(0), Action.UP, -1, cell(0));
+
+      expect(agent.getModelSize()).toBe(2);
+      expect(agent.getModel()[0]).toEqual({
+        state: cell(0),
+        action: Action.RIGHT,
+        reward: -5,
+        nextState: cell(0),
+        done: false,
+      });
+    });
+
+    it("should forget the model on reset", () => {
+      agent.update(cell(0), Action.RIGHT, 0, cell(1));
+      agent.resetQTable();
+
+      expect(agent.getModelSize()).toBe(0);
+      expect(agent.planningUpdates).toBe(0);
+    });
+
+    it("should round-trip the model and planning settings", () => {
+      agent.setPlanning({ steps: 3, prioritized: true, threshold: 0.5 });
+      agent.update(cell(0), Action.RIGHT, 0, cell(1));
+      agent.update(cell(1), Action.RIGHT, 10, cell(2), true);
+
+      const restored = new DynaQAgent(0.1, 0.9, 0.1);
+      restored.restore(agent.serialize());
+
+      expect(restored.planning).toEqual(agent.planning);
+      expect(restored.getModel()).toEqual(agent.getModel());
+      expect(restored.planningUpdates).toBe(agent.planningUpdates);
+    });
+  });
+
+  describe("planning", () => {
+    it("should act like plain Q-learning with zero planning steps", () => {
+      agent.setPlanning({ ...DEFAULT_PLANNING, steps: 0 });
+      agent.update(cell(0), Action.RIGHT, 0, cell(1));
+      agent.update(cell(1), Action.RIGHT, 10, cell(2), true);
+
+      expect(agent.getQValues(cell(0))[Action.RIGHT]).toBe(0);
+      expect(agent.planningUpdates).toBe(0);
+    });
+
+    it("should spread the goal value back without more real steps", () => {
+      agent.setPlanning({ ...DEFAULT_PLANNING, steps: 50 });
+      agent.update(cell(0), Action.RIGHT, 0, cell(1));
+      agent.update(cell(1), Action.RIGHT, 10, cell(2), true);
+
+      expect(agent.getQValues(cell(0))[Action.RIGHT]).toBeGreaterThan(0);
+      expect(agent.planningUpdates).toBe(100);
+    });
+
+    it("should leave visit counts to real steps", () => {
+      agent.setPlanning({ ...DEFAULT_PLANNING, steps: 5 });
+      agent.update(cell(0), Action.RIGHT, 0, cell(1));
+
+      expect(agent.visitCounts["0,0"]).toBe(1);
+      expect(agent.actionCounts["0,0"]).toEqual([0, 1, 0, 0]);
+    });
+
+    it("should sweep backwards from a changed state when prioritized", () => {
+      agent.setPlanning({ steps: 10, prioritized: true, threshold: 0.01 });
+      agent.update(cell(0), Action.RIGHT, 0, cell(1));
+      agent.update(cell(1), Action.RIGHT, 0, cell(2));
+      agent.update(cell(2), Action.RIGHT, 10, cell(3), true);
+
+      expect(agent.getQValues(cell(2))[Action.RIGHT]).toBeCloseTo(1);
+      expect(agent.getQValues(cell(1))[Action.RIGHT]).toBeCloseTo(0.09);
+      expect(agent.getQValues(cell(0))[Action.RIGHT]).toBeCloseTo(0.0081);
+      // Only the two predecessors needed an update, so the queue ran dry early
+      expect(agent.planningUpdates).toBe(2);
+    });
+
+    it("should skip changes below the threshold", () => {
+      agent.setPlanning({ steps: 10, prioritized: true, threshold: 0.5 });
+      agent.update(cell(0), Action.RIGHT, 0, cell(1));
+      agent.update(cell(1), Action.RIGHT, 0, cell(2));
+      agent.update(cell(2), Action.RIGHT, 10, cell(3), true);
+
+      expect(agent.getQValues(cell(0))[Action.RIGHT]).toBe(0);
+      expect(agent.planningUpdates).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Action, ModelTransition, PlanningConfig, Position, SerializedAgent } from '../types';
+import { TabularAgent } from './TabularAgent';
+
+export const DEFAULT_PLANNING: PlanningConfig = {
+  steps: 10,
+  prioritized: false,
+  threshold: 0.01,
+};
+
+// Q-learning plus a model of every state-action it has tried. After each real step it replays K
+// remembered transitions, so the value of a discovered goal spreads without walking there again.
+export class DynaQAgent extends TabularAgent {
+  public readonly algorithm = 'dyna-q' as const;
+
+  public planning: PlanningConfig = { ...DEFAULT_PLANNING };
+  public planningUpdates: number = 0;
+
+  // Keyed by "x,y|action"; modelKeys mirrors the keys so random planning can sample in O(1)
+  private model: Record<string, ModelTransition> = {};
+  private modelKeys: string[] = [];
+  // Model keys that lead into each state, so prioritized sweeping can work backwards
+  private predecessors: Record<string, Set<string>> = {};
+  private queue = new Map<string, number>();
+
+  public setPlanning(config: PlanningConfig): void {
+    this.planning = { ...config };
+    this.queue.clear();
+  }
+
+  public getModelSize(): number {
+    return this.modelKeys.length;
+  }
+
+  public getModel(): ModelTransition[] {
+    return this.modelKeys.map(key => this.model[key]);
+  }
+
+  public update(
+    state: Position,
+    action: Action,
+    reward: number,
+    nextState: Position,
+    done: boolean = false
+  ): void {
+    this.applyTarget(state, action, this.targetFor(reward, nextState, done));
+    this.remember({ state: { ...state }, action, reward, nextState: { ...nextState }, done });
+
+    if (this.planning.prioritized) {
+      this.queuePredecessors(state);
+      this.sweep();
+    } else {
+      this.planRandomly();
+    }
+  }
+
+  private targetFor(reward: number, nextState: Position, done: boolean): number {
+    return reward + (done ? 0 : this.gamma * this.getMaxQ(nextState));
+  }
+
+  private remember(transition: ModelTransition): void {
+    const key = `${this.getStateKey(transition.state)}|${transition.action}`;
+    const previous = this.model[key];
+    if (!previous) {
+      this.modelKeys.push(key);
+    } else {
+      this.predecessors[this.getStateKey(previous.nextState)]?.delete(key);
+    }
+    this.model[key] = transition;
+    const nextKey = this.getStateKey(transition.nextState);
+    (this.predecessors[nextKey] ??= new Set()).add(key);
+  }
+
+  // Simulated steps don't count as visits, so UCB1 and the Q inspector only see real experience
+  private plan(transition: ModelTransition): void {
+    const { state, action, reward, nextState, done } = transition;
+    const qValues = this.getQValues(state);
+    qValues[action] += this.alpha * (this.targetFor(reward, nextState, done) - qValues[action]);
+    this.planningUpdates += 1;
+  }
+
+  private planRandomly(): void {
+    for (let i = 0; i < this.planning.steps && this.modelKeys.length > 0; i++) {
+      this.plan(this.model[this.modelKeys[this.rng.nextInt(this.modelKeys.length)]]);
+    }
+  }
+
+  // Queues every remembered move into `state` by how much its value would change now
+  private queuePredecessors(state: Position): void {
+    this.predecessors[this.getStateKey(state)]?.forEach(key => {
+      const { state: from, action, reward, nextState, done } = this.model[key];
+      const priority = Math.abs(this.targetFor(reward, nextState, done) - this.getQValues(from)[action]);
+      if (priority > this.planning.threshold && priority > (this.queue.get(key) ?? 0)) {
+        this.queue.set(key, priority);
+      }
+    });
+  }
+
+  private sweep(): void {
+    for (let i = 0; i < this.planning.steps && this.queue.size > 0; i++) {
+      let top = '';
+      let topPriority = -Infinity;
+      this.queue.forEach((priority, key) => {
+        if (priority > topPriority) {
+          top = key;
+          topPriority = priority;
+        }
+      });
+      this.queue.delete(top);
+      const transition = this.model[top];
+      this.plan(transition);
+      this.queuePredecessors(transition.state);
+    }
+  }
+
+  private clearModel(): void {
+    this.model = {};
+    this.modelKeys = [];
+    this.predecessors = {};
+    this.queue.clear();
+  }
+
+  public resetQTable(): void {
+    super.resetQTable();
+    this.clearModel();
+    this.planningUpdates = 0;
+  }
+
+  public serialize(): SerializedAgent {
+    return {
+      ...super.serialize(),
+      planning: this.planning,
+      model: this.getModel(),
+      planningUpdates: this.planningUpdates,
+    };
+  }
+
+  public restore(data: SerializedAgent): void {
+    super.restore(data);
+    this.setPlanning({ ...DEFAULT_PLANNING, ...data.planning });
+    this.clearModel();
+    (data.model ?? []).forEach(transition => this.remember(transition));
+    this.planningUpdates = data.planningUpdates ?? 0;
+  }
+}
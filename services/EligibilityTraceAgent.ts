@@ -0,0 +1,91 @@
+import { Action, Position, SerializedAgent, TraceKind } from '../types';
+import { TabularAgent } from './TabularAgent';
+
+export const DEFAULT_LAMBDA = 0.8;
+export const DEFAULT_TRACE_KIND: TraceKind = 'replacing';
+
+// Traces that fade below this are dropped, so an update only walks the recent path
+const TRACE_CUTOFF = 1e-3;
+
+export const TRACE_KINDS: { id: TraceKind; label: string; description: string }[] = [
+  { id: 'accumulating', label: 'Accumulating', description: 'Each visit adds 1, so looping through a cell piles up credit.' },
+  { id: 'replacing', label: 'Replacing', description: 'A visit resets the trace to 1 and clears the other actions of that cell.' },
+];
+
+// Shares every TD error with the recently visited state-actions in proportion to their eligibility trace,
+// which fades by γλ per step. Subclasses choose the target and when the traces are cut.
+export abstract class EligibilityTraceAgent extends TabularAgent {
+  public lambda: number = DEFAULT_LAMBDA;
+  public traceKind: TraceKind = DEFAULT_TRACE_KIND;
+  // e(s,a) per state, only for the state-actions visited this episode
+  public traces: Record<string, number[]> = {};
+
+  public setTraceParameters(lambda: number, traceKind: TraceKind): void {
+    this.lambda = lambda;
+    this.traceKind = traceKind;
+  }
+
+  public clearTraces(): void {
+    this.traces = {};
+  }
+
+  // Largest trace per cell ("x,y", whatever keys are held), for the scene overlay; per observation under a local encoder
+  public getTraceMagnitudes(): Record<string, number> {
+    const magnitudes: Record<string, number> = {};
+    Object.entries(this.traces).forEach(([key, values]) => {
+      const cell = key.split('|')[0];
+      magnitudes[cell] = Math.max(magnitudes[cell] ?? 0, ...values);
+    });
+    return magnitudes;
+  }
+
+  // Bumps e(s,a), applies Q += α·δ·e to every traced pair and fades the traces. Returns δ.
+  protected propagate(state: Position, action: Action, target: number, cut: boolean): number {
+    const key = this.getStateKey(state);
+    const tdError = target - this.getQValues(state)[action];
+    this.recordUpdate(state, action, tdError);
+
+    if (this.traceKind === 'replacing') {
+      this.traces[key] = [0, 0, 0, 0];
+      this.traces[key][action] = 1;
+    } else {
+      this.traces[key] = this.traces[key] ?? [0, 0, 0, 0];
+      this.traces[key][action] += 1;
+    }
+
+    const fade = this.gamma * this.lambda;
+    for (const [tracedKey, trace] of Object.entries(this.traces)) {
+      const qValues = this.qTable[tracedKey] ?? (this.qTable[tracedKey] = this.initialQValues());
+      trace.forEach((e, a) => {
+        if (e === 0) return;
+        qValues[a] += this.alpha * tdError * e;
+        trace[a] = e * fade < TRACE_CUTOFF ? 0 : e * fade;
+      });
+      if (trace.every(e => e === 0)) delete this.traces[tracedKey];
+    }
+
+    if (cut) this.clearTraces();
+    return tdError;
+  }
+
+  // Decay runs once per finished episode, including truncated ones, so traces never leak into the next
+  public decay(): void {
+    super.decay();
+    this.clearTraces();
+  }
+
+  public resetQTable(): void {
+    super.resetQTable();
+    this.clearTraces();
+  }
+
+  public serialize(): SerializedAgent {
+    return { ...super.serialize(), lambda: this.lambda, traceKind: this.traceKind };
+  }
+
+  public restore(data: SerializedAgent): void {
+    super.restore(data);
+    this.setTraceParameters(data.lambda ?? DEFAULT_LAMBDA, data.traceKind ?? DEFAULT_TRACE_KIND);
+    this.clearTraces();
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_SHIFT, measureAdaptation, shiftLayout } from "./EnvironmentEvents";
+import { PathSolver } from "./PathSolver";
+import { DEFAULT_SEED, MazeGenerator } from "./MazeGenerator";
+import { EpisodeRecord, MazeCell } from "../types";
+
+const fromPattern = (rows: string[]): MazeCell[][] =>
+  rows.map((row, y) =>
+    row.split("").map((ch, x) => ({ x, y, isWall: ch === "#" }))
+  );
+
+const GENERATOR = { algorithm: "dfs" as const, braid: 0 };
+const start = { x: 0, y: 0 };
+
+const records = (steps: number[]): EpisodeRecord[] =>
+  steps.map((s, i) => ({
+    episode: i + 1,
+    steps: s,
+    totalReward: 0,
+    epsilon: 0,
+    success: true,
+    wallHits: 0,
+  }));
+
+describe("EnvironmentEvents", () => {
+  describe("shiftLayout", () => {
+    it("should block the shortest route and leave the detour", () => {
+      const grid = fromPattern([".....", ".###.", "....."]);
+      const goal = { x: 4, y: 0 };
+
+      const shifted = shiftLayout(grid, start, goal, DEFAULT_SHIFT, GENERATOR);
+
+      expect(shifted!.flat().filter((c) => c.isWall)).toHaveLength(4);
+      expect(new PathSolver(shifted!).shortestPath(start, goal)?.distance).toBe(8);
+    });
+
+    it("should refuse to shift when a loop keeps a route of the same length", () => {
+      const grid = fromPattern([".....", ".###.", "....."]);
+
+      expect(shiftLayout(grid, { x: 0, y: 1 }, { x: 4, y: 1 }, DEFAULT_SHIFT, GENERATOR)).toBeNull();
+    });
+
+    it("should open a longer detour when blocking would cut a perfect maze in two", () => {
+      const grid = new MazeGenerator(11, 11, { seed: 3 }).generate();
+      const goal = { x: 10, y: 10 };
+      const before = new PathSolver(grid).shortestPath(start, goal)!.distance;
+
+      const shifted = shiftLayout(grid, start, goal, DEFAULT_SHIFT, GENERATOR);
+      const after = new PathSolver(shifted).shortestPath(start, goal);
+
+      expect(after).not.toBeNull();
+      expect(shifted).not.toEqual(grid);
+      expect(after!.distance).toBeGreaterThan(before);
+    });
+
+    it("should never open a shortcut in the default maze", () => {
+      const grid = new MazeGenerator(15, 15, { seed: DEFAULT_SEED, ...GENERATOR }).generate();
+      const goal = { x: 14, y: 14 };
+      const before = new PathSolver(grid).shortestPath(start, goal)!.distance;
+
+      const shifted = shiftLayout(grid, start, goal, DEFAULT_SHIFT, GENERATOR);
+
+      expect(shifted).not.toBeNull();
+      expect(new PathSolver(shifted!).shortestPath(start, goal)!.distance).toBeGreaterThan(before);
+    });
+
+    it("should refuse to shift when no longer detour can be opened", () => {
+      const corridor = fromPattern(["....."]);
+
+      expect(shiftLayout(corridor, start, { x: 4, y: 0 }, DEFAULT_SHIFT, GENERATOR)).toBeNull();
+    });
+
+    it("should regenerate the same maze from the same seed with the endpoints open", () => {
+      const grid = fromPattern(Array.from({ length: 9 }, () => "........."));
+      const goal = { x: 8, y: 8 };
+      const config = { ...DEFAULT_SHIFT, mode: "regenerate" as const, seed: 5 };
+
+      const a = shiftLayout(grid, start, goal, config, GENERATOR);
+      const b = shiftLayout(grid, start, goal, config, GENERATOR);
+
+      expect(a).toEqual(b);
+      expect(a[0][0].isWall).toBe(false);
+      expect(a[8][8].isWall).toBe(false);
+    });
+  });
+
+  describe("measureAdaptation", () => {
+    it("should report how many episodes the agent needed to get back to its baseline", () => {
+      const history = records([10, 10, 40, 30, 20, 10, 10]);
+
+      const result = measureAdaptation(history, 3, 2, { before: 8, after: 8 });
+
+      expect(result.baseline).toBe(10);
+      expect(result.shiftIndex).toBe(2);
+      expect(result.recoveredAfter).toBe(5);
+    });
+
+    it("should scale the baseline when the shift lengthens the optimal route", () => {
+      const history = records([10, 10, 40, 30, 20, 15, 15]);
+
+      const result = measureAdaptation(history, 3, 2, { before: 10, after: 15 });
+
+      expect(result.target).toBe(15);
+      expect(result.recoveredAfter).toBe(5);
+    });
+
+    it("should not measure recovery without both optima", () => {
+      const result = measureAdaptation(records([10, 10, 10, 10]), 3, 2, null);
+
+      expect(result.baseline).toBe(10);
+      expect(result.target).toBeNull();
+      expect(result.recoveredAfter).toBeNull();
+    });
+
+    it("should have no baseline without a full window before the shift", () => {
+      const result = measureAdaptation(records([10, 40]), 2, 5, { before: 8, after: 8 });
+
+      expect(result.baseline).toBeNull();
+      expect(result.recoveredAfter).toBeNull();
+    });
+  });
+});
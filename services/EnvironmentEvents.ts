@@ -0,0 +1,145 @@
+import { EpisodeRecord, MazeAlgorithm, MazeCell, Position, ShiftConfig, ShiftMode } from '../types';
+import { MazeGenerator } from './MazeGenerator';
+import { PathSolver } from './PathSolver';
+import { movingAverage } from './LearningCurve';
+
+export const SHIFT_MODES: { id: ShiftMode; label: string; description: string }[] = [
+  { id: 'block-route', label: 'Block Route', description: 'Walls off the middle of the shortest route; in a perfect maze a wall elsewhere opens to leave a longer detour, and the shift is refused if none exists.' },
+  { id: 'regenerate', label: 'New Maze', description: 'Swaps in a freshly generated maze of the same size from the shift seed.' },
+];
+
+export const DEFAULT_SHIFT: ShiftConfig = {
+  enabled: false,
+  episode: 200,
+  mode: 'block-route',
+  seed: 1,
+};
+
+// The re-adaptation chart counts the agent as recovered once its average is within this share of the target
+export const ADAPTATION_TOLERANCE = 0.1;
+
+const DELTAS: Position[] = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+const copyGrid = (grid: MazeCell[][]): MazeCell[][] => grid.map(row => row.map(cell => ({ ...cell })));
+
+const withCell = (grid: MazeCell[][], { x, y }: Position, isWall: boolean): MazeCell[][] => {
+  const next = copyGrid(grid);
+  next[y][x] = { x, y, isWall };
+  return next;
+};
+
+// Reopens the wall that reconnects a cut maze with the shortest route still longer than `distance`,
+// checked with the solver since an opening can join the halves somewhere shorter than expected
+const rejoin = (blocked: MazeCell[][], cut: Position, start: Position, goal: Position, distance: number): MazeCell[][] | null => {
+  const toGoal = new PathSolver(blocked).distanceField(goal);
+  let best: { grid: MazeCell[][]; distance: number } | null = null;
+  for (const cell of blocked.flat()) {
+    if (!cell.isWall || (cell.x === cut.x && cell.y === cut.y)) continue;
+    const around = DELTAS.map(d => blocked[cell.y + d.y]?.[cell.x + d.x]).filter((n): n is MazeCell => !!n && !n.isWall);
+    // Only a wall between the goal's side and the other side can reconnect the two
+    if (!around.some(n => toGoal[n.y][n.x] !== null) || !around.some(n => toGoal[n.y][n.x] === null)) continue;
+    const opened = withCell(blocked, cell, false);
+    const route = new PathSolver(opened).shortestPath(start, goal);
+    if (route && route.distance > distance && (!best || route.distance < best.distance)) {
+      best = { grid: opened, distance: route.distance };
+    }
+  }
+  return best?.grid ?? null;
+};
+
+// Sutton and Barto's blocking maze: the learned route closes and a longer one has to be found.
+// Route cells are tried from the middle outwards; null when none can close without a shortcut or an equal route.
+const blockRoute = (grid: MazeCell[][], start: Position, goal: Position): MazeCell[][] | null => {
+  const route = new PathSolver(grid).shortestPath(start, goal);
+  if (!route || route.path.length < 3) return null;
+
+  const middle = Math.floor(route.path.length / 2);
+  const order = route.path
+    .map((_, i) => i)
+    .slice(1, -1)
+    .sort((a, b) => Math.abs(a - middle) - Math.abs(b - middle));
+  // A maze with loops can keep a route of the same length, so only a longer one counts as blocked
+  const severed: { blocked: MazeCell[][]; cell: Position }[] = [];
+  for (const i of order) {
+    const blocked = withCell(grid, route.path[i], true);
+    const detour = new PathSolver(blocked).shortestPath(start, goal);
+    if (!detour) severed.push({ blocked, cell: route.path[i] });
+    else if (detour.distance > route.distance) return blocked;
+  }
+  // Only cells that cut the maze in two are left to reconnect elsewhere
+  for (const { blocked, cell } of severed) {
+    const rejoined = rejoin(blocked, cell, start, goal, route.distance);
+    if (rejoined) return rejoined;
+  }
+  return null;
+};
+
+// The layout that takes over at the shift episode; start and goal always stay open.
+// Null when the route cannot be blocked without opening a shorter one.
+export const shiftLayout = (
+  grid: MazeCell[][],
+  start: Position,
+  goal: Position,
+  config: ShiftConfig,
+  generator: { algorithm: MazeAlgorithm; braid: number }
+): MazeCell[][] | null => {
+  if (config.mode === 'block-route') return blockRoute(grid, start, goal);
+
+  const generated = new MazeGenerator(grid[0].length, grid.length, { seed: config.seed, ...generator }).generate();
+  generated[start.y][start.x].isWall = false;
+  generated[goal.y][goal.x].isWall = false;
+  return generated;
+};
+
+// Shortest route lengths on the layouts before and after the shift
+export type ShiftOptima = { before: number; after: number };
+
+export type Adaptation = {
+  // Mean steps over the window before the shift, null until that many episodes exist
+  baseline: number | null;
+  // The baseline scaled by how the shift changed the shortest route, since a longer route can never be
+  // walked in the old number of steps; null without a baseline or without both optima
+  target: number | null;
+  // Moving average of steps, starting one window before the shift
+  curve: number[];
+  // Index in curve of the shift episode
+  shiftIndex: number;
+  // Episodes after the shift until the average is back within tolerance of the target, null until then
+  recoveredAfter: number | null;
+};
+
+export const measureAdaptation = (
+  history: EpisodeRecord[],
+  shiftEpisode: number,
+  window: number,
+  optima: ShiftOptima | null
+): Adaptation => {
+  const before = history.filter(r => r.episode < shiftEpisode).slice(-window);
+  const after = history.filter(r => r.episode >= shiftEpisode);
+  const baseline = before.length === window && window > 0
+    ? before.reduce((sum, r) => sum + r.steps, 0) / window
+    : null;
+  const curve = movingAverage([...before, ...after].map(r => r.steps), window);
+  const target = baseline !== null && optima && optima.before > 0
+    ? baseline * optima.after / optima.before
+    : null;
+
+  let recoveredAfter: number | null = null;
+  if (target !== null) {
+    const limit = target * (1 + ADAPTATION_TOLERANCE);
+    // The average only covers post-shift episodes once a full window has passed
+    for (let i = window - 1; i < after.length; i++) {
+      if (curve[before.length + i] <= limit) {
+        recoveredAfter = i + 1;
+        break;
+      }
+    }
+  }
+
+  return { baseline, target, curve, shiftIndex: before.length, recoveredAfter };
+};
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  EpisodeRecorder,
+  encodeActions,
+  decodeActions,
+  replayTrajectory,
+} from "./EpisodeRecorder";
+import { Action, MazeCell } from "../types";
+
+// 3x2 room with a wall at (1,1):
+// . . .
+// . # .
+const room: MazeCell[][] = [
+  [0, 1, 2].map((x) => ({ x, y: 0, isWall: false })),
+  [0, 1, 2].map((x) => ({ x, y: 1, isWall: x === 1 })),
+];
+
+describe("EpisodeRecorder", () => {
+  let recorder: EpisodeRecorder;
+
+  beforeEach(() => {
+    recorder = new EpisodeRecorder(3);
+  });
+
+  it("should encode actions as one digit per step and decode them back", () => {
+    const actions = [Action.UP, Action.RIGHT, Action.DOWN, Action.LEFT];
+    expect(encodeActions(actions)).toBe("0123");
+    expect(decodeActions("0123")).toEqual(actions);
+  });
+
+  it("should store a finished episode and start a fresh one", () => {
+    recorder.record(Action.RIGHT);
+    recorder.record(Action.DOWN);
+    const recording = recorder.finish(1, true, 998);
+
+    expect(recording).toEqual({
+      episode: 1,
+      actions: "12",
+      steps: 2,
+      success: true,
+      totalReward: 998,
+    });
+    recorder.record(Action.LEFT);
+    expect(recorder.finish(2, false, -1).actions).toBe("3");
+  });
+
+  it("should drop the steps of an abandoned episode", () => {
+    recorder.record(Action.RIGHT);
+    recorder.discard();
+    expect(recorder.finish(1, false, 0).steps).toBe(0);
+  });
+
+  it("should pick the shortest successful episode as best", () => {
+    recorder.add({ episode: 1, actions: "1", steps: 1, success: false, totalReward: 0 });
+    recorder.add({ episode: 2, actions: "1212", steps: 4, success: true, totalReward: 0 });
+    recorder.add({ episode: 3, actions: "12", steps: 2, success: true, totalReward: 0 });
+    expect(recorder.getBest()?.episode).toBe(3);
+  });
+
+  it("should keep the first and best episodes when over capacity", () => {
+    [
+      { episode: 1, steps: 9, success: true },
+      { episode: 2, steps: 3, success: true },
+      { episode: 3, steps: 8, success: true },
+      { episode: 4, steps: 7, success: true },
+      { episode: 5, steps: 6, success: true },
+    ].forEach((r) => recorder.add({ ...r, actions: "", totalReward: 0 }));
+
+    expect(recorder.getRecordings().map((r) => r.episode)).toEqual([1, 2, 5]);
+  });
+
+  it("should forget everything on clear", () => {
+    recorder.record(Action.UP);
+    recorder.finish(1, false, 0);
+    recorder.clear();
+    expect(recorder.getRecordings()).toEqual([]);
+    expect(recorder.getBest()).toBeNull();
+  });
+
+  it("should mark recordings made after a maze shift until cleared", () => {
+    recorder.finish(1, false, 0);
+    recorder.shifted = true;
+    recorder.finish(2, false, 0);
+
+    expect(recorder.getRecordings().map((r) => r.shifted)).toEqual([undefined, true]);
+    recorder.clear();
+    expect(recorder.shifted).toBe(false);
+  });
+
+  describe("replayTrajectory", () => {
+    it("should rebuild every position including bumps into walls", () => {
+      const path = replayTrajectory(
+        room,
+        { x: 0, y: 0 },
+        { x: 2, y: 1 },
+        encodeActions([Action.DOWN, Action.RIGHT, Action.UP, Action.RIGHT, Action.RIGHT, Action.DOWN])
+      );
+
+      expect(path).toEqual([
+        { x: 0, y: 0 },
+        { x: 0, y: 1 },
+        { x: 0, y: 1 },
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+        { x: 2, y: 0 },
+        { x: 2, y: 1 },
+      ]);
+    });
+
+    it("should replay slips from the recorded moves without slipping again", () => {
+      const ice = room.map((row) => row.map((cell) => ({ ...cell, cellType: "ice" as const })));
+      expect(decodeActions("1.2")).toEqual([Action.RIGHT, null, Action.DOWN]);
+
+      const path = replayTrajectory(ice, { x: 0, y: 0 }, { x: 2, y: 1 }, "1.12");
+
+      expect(path).toEqual([
+        { x: 0, y: 0 },
+        { x: 1, y: 0 },
+        { x: 1, y: 0 },
+        { x: 2, y: 0 },
+        { x: 2, y: 1 },
+      ]);
+    });
+
+    it("should keep the gate clock running through slips in place", () => {
+      const gated = room.map((row) =>
+        row.map((cell) =>
+          cell.x === 1 && cell.y === 0 ? { ...cell, cellType: "gate" as const, period: 2 } : cell
+        )
+      );
+
+      // The gate opens at step 2, after the two slips
+      const path = replayTrajectory(gated, { x: 0, y: 0 }, { x: 2, y: 1 }, "..1");
+
+      expect(path[path.length - 1]).toEqual({ x: 1, y: 0 });
+    });
+
+    it("should return only the start for an empty episode", () => {
+      expect(replayTrajectory(room, { x: 0, y: 0 }, { x: 2, y: 1 }, "")).toEqual([
+        { x: 0, y: 0 },
+      ]);
+    });
+  });
+});
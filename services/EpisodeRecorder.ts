@@ -0,0 +1,97 @@
+import { Action, EpisodeRecording, MazeCell, Position } from '../types';
+import { DETERMINISTIC_DYNAMICS, MazeEnvironment } from './MazeEnvironment';
+
+// Enough for long training sessions without letting memory grow with every episode
+export const DEFAULT_RECORDING_CAPACITY = 200;
+
+// Marks a step where the agent slipped and stayed put
+const STAY = '.';
+
+// One digit per step ("11.2..."), since actions are the enum values 0-3. Steps hold the move the agent
+// actually made, so slippery episodes replay exactly without the slip draws.
+export const encodeActions = (actions: (Action | null)[]): string =>
+  actions.map(action => (action === null ? STAY : action)).join('');
+
+export const decodeActions = (encoded: string): (Action | null)[] =>
+  encoded.split('').map(ch => (ch === STAY ? null : (Number(ch) as Action)));
+
+// Rebuilds the visited cells of a recorded episode by stepping its moves through the maze it ran on.
+// Slips in place are stepped too, so the clock that drives gates and patrols stays in sync.
+export const replayTrajectory = (
+  grid: MazeCell[][],
+  startPos: Position,
+  goalPos: Position,
+  encoded: string
+): Position[] => {
+  const actions = decodeActions(encoded);
+  const env = new MazeEnvironment(grid, startPos, goalPos, actions.length + 1, undefined, DETERMINISTIC_DYNAMICS);
+  const positions = [env.reset()];
+  for (const action of actions) {
+    positions.push(env.step(action ?? Action.UP, action).nextState);
+  }
+  return positions;
+};
+
+// Keeps finished episodes as compact move strings. Once over capacity the oldest recordings are
+// dropped, but the first episode and the best successful one are always kept for before/after replays.
+export class EpisodeRecorder {
+  private capacity: number;
+  private recordings: EpisodeRecording[] = [];
+  private current: (Action | null)[] = [];
+  // Set once the maze shift has swapped the layout, so later recordings replay on the shifted maze
+  public shifted: boolean = false;
+
+  constructor(capacity: number = DEFAULT_RECORDING_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  public record(move: Action | null): void {
+    this.current.push(move);
+  }
+
+  public finish(episode: number, success: boolean, totalReward: number): EpisodeRecording {
+    const recording: EpisodeRecording = {
+      episode,
+      actions: encodeActions(this.current),
+      steps: this.current.length,
+      success,
+      totalReward,
+      ...(this.shifted && { shifted: true }),
+    };
+    this.current = [];
+    this.add(recording);
+    return recording;
+  }
+
+  // Drops the steps of an episode that was abandoned before it finished
+  public discard(): void {
+    this.current = [];
+  }
+
+  public add(recording: EpisodeRecording): void {
+    this.recordings.push(recording);
+    if (this.recordings.length > this.capacity) {
+      const first = this.recordings[0];
+      const best = this.getBest();
+      const index = this.recordings.findIndex(r => r !== first && r !== best);
+      if (index !== -1) this.recordings.splice(index, 1);
+    }
+  }
+
+  public getRecordings(): EpisodeRecording[] {
+    return this.recordings;
+  }
+
+  public getBest(): EpisodeRecording | null {
+    return this.recordings.reduce<EpisodeRecording | null>(
+      (best, r) => (r.success && (best === null || r.steps < best.steps) ? r : best),
+      null
+    );
+  }
+
+  public clear(): void {
+    this.recordings = [];
+    this.current = [];
+    this.shifted = false;
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { EpisodeRunner, CONVERGENCE_WINDOW } from "./EpisodeRunner";
+import { QLearningAgent } from "./QLearningAgent";
+import { Action, MazeCell } from "../types";
+
+// 4x1 corridor from (0,0) to (3,0)
+const corridor: MazeCell[][] = [
+  Array.from({ length: 4 }, (_, x) => ({ x, y: 0, isWall: false })),
+];
+
+const greedyRight = () => ({
+  "0,0": [0, 1, 0, 0],
+  "1,0": [0, 1, 0, 0],
+  "2,0": [0, 1, 0, 0],
+});
+
+describe("EpisodeRunner", () => {
+  let agent: QLearningAgent;
+  let runner: EpisodeRunner;
+
+  beforeEach(() => {
+    agent = new QLearningAgent(0.5, 0.9, 0.2);
+    runner = new EpisodeRunner(agent, corridor, { x: 0, y: 0 }, { x: 3, y: 0 });
+  });
+
+  describe("tick", () => {
+    it("should advance one step per tick", () => {
+      runner.tick();
+      expect(runner.stats.step).toBe(1);
+      expect(runner.stats.episode).toBe(1);
+    });
+
+    it("should hold the finished episode for one tick before resetting", () => {
+      agent.epsilon = 0;
+      agent.setQTable(greedyRight());
+
+      runner.tick();
+      runner.tick();
+      runner.tick();
+      expect(runner.stats.isGoalReached).toBe(true);
+      expect(runner.getPosition()).toEqual({ x: 3, y: 0 });
+
+      runner.tick();
+      expect(runner.stats.episode).toBe(2);
+      expect(runner.stats.step).toBe(0);
+      expect(runner.stats.bestStepCount).toBe(3);
+      expect(runner.getPosition()).toEqual({ x: 0, y: 0 });
+    });
+
+    it("should decay epsilon between episodes", () => {
+      agent.epsilon = 0.5;
+      agent.setQTable(greedyRight());
+      while (runner.stats.episode === 1) runner.tick();
+
+      expect(runner.stats.epsilon).toBeCloseTo(0.5 * agent.decayRate);
+    });
+  });
+
+  describe("measureGreedyPath", () => {
+    it("should return the greedy path length to the goal", () => {
+      agent.setQTable(greedyRight());
+      expect(runner.measureGreedyPath()).toBe(3);
+    });
+
+    it("should return null when the greedy policy loops", () => {
+      agent.setQTable({ "0,0": [0, 1, 0, 0], "1,0": [0, 0, 0, 1] });
+      expect(runner.measureGreedyPath()).toBeNull();
+    });
+
+    it("should wait at a closed gate instead of calling it a loop", () => {
+      const gated = corridor.map((row) => row.map((cell) => ({ ...cell })));
+      gated[0][2] = { ...gated[0][2], cellType: "gate", period: 4 };
+      agent.setQTable(greedyRight());
+
+      const gatedRunner = new EpisodeRunner(agent, gated, { x: 0, y: 0 }, { x: 3, y: 0 });
+
+      // One step to the gate, bumps while it is closed for steps 1-3, then through and on to the goal
+      expect(gatedRunner.measureGreedyPath()).toBe(6);
+    });
+
+    it("should not touch the Q-table", () => {
+      runner.measureGreedyPath();
+      expect(agent.qTable).toEqual({});
+    });
+  });
+
+  describe("convergence", () => {
+    it("should report the episode the greedy path stabilised at", () => {
+      agent.epsilon = 0;
+      agent.alpha = 0;
+      agent.setQTable(greedyRight());
+
+      while (runner.stats.episode <= CONVERGENCE_WINDOW) runner.tick();
+
+      expect(runner.stats.greedyPathLength).toBe(3);
+      expect(runner.stats.convergedAt).toBe(1);
+    });
+
+    it("should not converge while the greedy path misses the goal", () => {
+      agent.epsilon = 0;
+      agent.alpha = 0;
+      agent.qTable["0,0"] = [1, 0, 0, 0];
+      runner = new EpisodeRunner(
+        agent,
+        corridor,
+        { x: 0, y: 0 },
+        { x: 3, y: 0 },
+        undefined,
+        5
+      );
+
+      while (runner.stats.episode <= CONVERGENCE_WINDOW + 1) runner.tick();
+
+      expect(runner.stats.greedyPathLength).toBeNull();
+      expect(runner.stats.convergedAt).toBeNull();
+      expect(agent.getGreedyAction({ x: 0, y: 0 })).toBe(Action.UP);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { Action, Agent, DynamicsConfig, MazeCell, ObservationConfig, Position, RewardConfig, RunnerStats } from '../types';
+import { DETERMINISTIC_DYNAMICS, MazeEnvironment } from './MazeEnvironment';
+import { cellTypeOf } from './CellTypes';
+
+// Consecutive episodes with an unchanged greedy path before a run counts as converged
+export const CONVERGENCE_WINDOW = 10;
+
+// Steps one agent through its own copy of the maze with the same episode bookkeeping as the simulator,
+// so several runners can be advanced in lockstep
+export class EpisodeRunner {
+  public readonly agent: Agent;
+  public readonly stats: RunnerStats;
+
+  private env: MazeEnvironment;
+  private evalEnv: MazeEnvironment;
+  private position: Position;
+  private pendingAction: Action | null = null;
+  private stablePathLength: number | null = null;
+  private stableSince: number = 1;
+  // Gates and patrols change with the step, so a state can only repeat when none are present
+  private timed: boolean;
+
+  constructor(
+    agent: Agent,
+    grid: MazeCell[][],
+    startPos: Position,
+    goalPos: Position,
+    rewards?: RewardConfig,
+    maxSteps?: number,
+    dynamics?: DynamicsConfig,
+    observation?: ObservationConfig
+  ) {
+    this.agent = agent;
+    this.env = new MazeEnvironment(grid, startPos, goalPos, maxSteps, rewards, dynamics);
+    this.env.gamma = agent.gamma;
+    // The greedy path is measured without slips so it reflects the policy alone
+    this.evalEnv = new MazeEnvironment(grid, startPos, goalPos, maxSteps, rewards, DETERMINISTIC_DYNAMICS);
+    if (observation) {
+      this.env.observation = { ...observation };
+      this.evalEnv.observation = { ...observation };
+    }
+    this.timed = grid.flat().some(cell => ['gate', 'patrol'].includes(cellTypeOf(cell)));
+    this.position = this.env.reset();
+    this.stats = {
+      episode: 1,
+      step: 0,
+      totalReward: 0,
+      epsilon: agent.epsilon,
+      isGoalReached: false,
+      isTrapped: false,
+      bestStepCount: null,
+      wallHits: 0,
+      greedyPathLength: null,
+      convergedAt: null,
+    };
+  }
+
+  public getPosition(): Position {
+    return { ...this.position };
+  }
+
+  public tick(): void {
+    const s = this.stats;
+
+    // A finished episode stays on screen for one tick before the next one starts
+    if (s.isGoalReached || s.isTrapped || s.step >= this.env.maxSteps) {
+      this.finishEpisode();
+      return;
+    }
+
+    const action = this.pendingAction ?? this.agent.chooseAction(this.position);
+    const { nextState, reward, done, info } = this.env.step(action);
+    const nextAction = this.agent.learnAndChoose(this.position, action, reward, nextState, done);
+
+    this.pendingAction = nextAction ?? null;
+    this.position = nextState;
+    s.step = info.step;
+    s.totalReward += reward;
+    s.isGoalReached = info.reachedGoal;
+    s.isTrapped = info.trapped;
+    if (info.hitWall) s.wallHits += 1;
+  }
+
+  // Follows the greedy policy without learning; a revisited state means the deterministic policy loops.
+  // The state is the cell, keys held and observation (which carries the history encoder's memory), plus
+  // the step when gates or patrols are present. Traps and the step limit also count as missing the goal.
+  public measureGreedyPath(): number | null {
+    const stateKey = (pos: Position, step: number) =>
+      `${pos.x},${pos.y},${pos.keys ?? 0},${pos.obs ?? ''}${this.timed ? `,${step}` : ''}`;
+    let state = this.evalEnv.reset();
+    const seen = new Set<string>([stateKey(state, 0)]);
+
+    while (true) {
+      const { nextState, done, truncated, info } = this.evalEnv.step(this.agent.getGreedyAction(state));
+      if (info.reachedGoal) return info.step;
+      const key = stateKey(nextState, info.step);
+      if (done || truncated || seen.has(key)) return null;
+      seen.add(key);
+      state = nextState;
+    }
+  }
+
+  private finishEpisode(): void {
+    const s = this.stats;
+    if (s.isGoalReached) {
+      s.bestStepCount = s.bestStepCount === null ? s.step : Math.min(s.bestStepCount, s.step);
+    }
+
+    const pathLength = this.measureGreedyPath();
+    s.greedyPathLength = pathLength;
+    if (pathLength === null || pathLength !== this.stablePathLength) {
+      this.stablePathLength = pathLength;
+      this.stableSince = s.episode;
+    } else if (s.convergedAt === null && s.episode - this.stableSince + 1 >= CONVERGENCE_WINDOW) {
+      s.convergedAt = this.stableSince;
+    }
+
+    this.agent.decay();
+    this.position = this.env.reset();
+    this.pendingAction = null;
+    s.episode += 1;
+    s.step = 0;
+    s.totalReward = 0;
+    s.wallHits = 0;
+    s.epsilon = this.agent.epsilon;
+    s.isGoalReached = false;
+    s.isTrapped = false;
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ExpectedSarsaAgent } from "./ExpectedSarsaAgent";
+import { Action, Position } from "../types";
+
+describe("ExpectedSarsaAgent", () => {
+  let agent: ExpectedSarsaAgent;
+  const state: Position = { x: 1, y: 1 };
+  const nextState: Position = { x: 2, y: 1 };
+
+  beforeEach(() => {
+    agent = new ExpectedSarsaAgent(0.1, 0.9, 0.2);
+  });
+
+  it("should report its algorithm", () => {
+    expect(agent.algorithm).toBe("expected-sarsa");
+  });
+
+  describe("getExpectedQ", () => {
+    it("should weight Q-values by the ε-greedy policy", () => {
+      agent.qTable["2,1"] = [10, 0, 0, 0];
+
+      // 0.8 * 10 + 0.05 * (10 + 0 + 0 + 0) = 8.5
+      expect(agent.getExpectedQ(nextState)).toBeCloseTo(8.5);
+    });
+
+    it("should split the greedy probability across ties", () => {
+      agent.qTable["2,1"] = [10, 10, 0, 0];
+
+      // Each greedy action gets 0.4 + 0.05
+      expect(agent.getExpectedQ(nextState)).toBeCloseTo(9);
+    });
+
+    it("should follow the softmax weights under Boltzmann exploration", () => {
+      agent.setExploration({
+        ...agent.exploration,
+        strategy: "boltzmann",
+        temperature: 1,
+      });
+      agent.qTable["2,1"] = [Math.log(3), 0, 0, 0];
+
+      // Weights 3:1:1:1, so E[Q] = 0.5 * ln 3
+      expect(agent.getExpectedQ(nextState)).toBeCloseTo(0.5 * Math.log(3));
+    });
+
+    it("should equal the max when epsilon is 0", () => {
+      agent.epsilon = 0;
+      agent.qTable["2,1"] = [3, 7, -2, 1];
+
+      expect(agent.getExpectedQ(nextState)).toBeCloseTo(7);
+    });
+  });
+
+  describe("update", () => {
+    it("should bootstrap from the expected next value", () => {
+      agent.qTable["2,1"] = [10, 0, 0, 0];
+
+      agent.update(state, Action.RIGHT, 0, nextState);
+
+      // newQ = 0 + 0.1 * (0 + 0.9 * 8.5) = 0.765
+      expect(agent.getQValues(state)[Action.RIGHT]).toBeCloseTo(0.765);
+    });
+
+    it("should not bootstrap from a terminal state", () => {
+      agent.qTable["2,1"] = [10, 0, 0, 0];
+
+      agent.update(state, Action.RIGHT, 10, nextState, true);
+
+      expect(agent.getQValues(state)[Action.RIGHT]).toBeCloseTo(1.0);
+    });
+  });
+});
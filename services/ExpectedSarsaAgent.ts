@@ -0,0 +1,26 @@
+import { Action, Position } from '../types';
+import { TabularAgent } from './TabularAgent';
+
+export class ExpectedSarsaAgent extends TabularAgent {
+  public readonly algorithm = 'expected-sarsa' as const;
+
+  // Expected value of Q(s',·) under the current exploration policy (ε-greedy ties share the greedy mass)
+  public getExpectedQ(pos: Position): number {
+    const qValues = this.getQValues(pos);
+    const probabilities = this.getActionProbabilities(pos);
+    return qValues.reduce((sum, q, a) => sum + probabilities[a] * q, 0);
+  }
+
+  public update(
+    state: Position,
+    action: Action,
+    reward: number,
+    nextState: Position,
+    done: boolean = false
+  ): void {
+    const expectedNextQ = done ? 0 : this.getExpectedQ(nextState);
+
+    // Expected SARSA: Q(s,a) = Q(s,a) + alpha * [Reward + gamma * E_π[Q(s',a')] - Q(s,a)]
+    this.applyTarget(state, action, reward + this.gamma * expectedNextQ);
+  }
+}
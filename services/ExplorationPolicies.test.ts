@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  EXPLORATION_POLICIES,
+  EXPLORATION_STRATEGIES,
+  ExplorationContext,
+} from "./ExplorationPolicies";
+import { SeededRandom } from "./SeededRandom";
+import { Action } from "../types";
+
+const context = (overrides: Partial<ExplorationContext>): ExplorationContext => ({
+  qValues: [0, 0, 0, 0],
+  counts: [1, 1, 1, 1],
+  epsilon: 0.2,
+  temperature: 1,
+  ucbC: 2,
+  ...overrides,
+});
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+
+describe("ExplorationPolicies", () => {
+  it("should list every policy in the picker", () => {
+    expect(EXPLORATION_STRATEGIES.map((s) => s.id).sort()).toEqual(
+      Object.keys(EXPLORATION_POLICIES).sort()
+    );
+  });
+
+  describe.each(EXPLORATION_STRATEGIES.map((s) => s.id))("%s", (strategy) => {
+    it("should give a probability distribution over the four actions", () => {
+      const probabilities = EXPLORATION_POLICIES[strategy].probabilities(
+        context({ qValues: [3, -1, 7, 2], counts: [4, 2, 9, 1] })
+      );
+      expect(probabilities).toHaveLength(4);
+      expect(sum(probabilities)).toBeCloseTo(1);
+    });
+
+    it("should only choose actions it gives a non-zero probability", () => {
+      const ctx = context({ qValues: [3, -1, 7, 2], counts: [4, 2, 9, 1] });
+      const probabilities = EXPLORATION_POLICIES[strategy].probabilities(ctx);
+      const rng = new SeededRandom(5);
+      for (let i = 0; i < 100; i++) {
+        const action = EXPLORATION_POLICIES[strategy].choose(ctx, rng);
+        expect(probabilities[action]).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe("epsilon-greedy", () => {
+    it("should put 1 - ε + ε/4 on the greedy action", () => {
+      const probabilities = EXPLORATION_POLICIES["epsilon-greedy"].probabilities(
+        context({ qValues: [10, 0, 0, 0] })
+      );
+      expect(probabilities[Action.UP]).toBeCloseTo(0.85);
+      expect(probabilities[Action.RIGHT]).toBeCloseTo(0.05);
+    });
+  });
+
+  describe("boltzmann", () => {
+    const { probabilities } = EXPLORATION_POLICIES.boltzmann;
+
+    it("should be nearly uniform at high temperature", () => {
+      const p = probabilities(context({ qValues: [1, 2, 3, 4], temperature: 1000 }));
+      p.forEach((value) => expect(value).toBeCloseTo(0.25, 2));
+    });
+
+    it("should be nearly greedy at low temperature", () => {
+      const p = probabilities(context({ qValues: [1, 2, 3, 4], temperature: 0.01 }));
+      expect(p[Action.LEFT]).toBeCloseTo(1);
+    });
+
+    it("should stay finite for large Q-values", () => {
+      const p = probabilities(context({ qValues: [5000, 4000, 0, 0], temperature: 1 }));
+      p.forEach((value) => expect(Number.isFinite(value)).toBe(true));
+      expect(p[Action.UP]).toBeCloseTo(1);
+    });
+  });
+
+  describe("ucb1", () => {
+    const { choose } = EXPLORATION_POLICIES.ucb1;
+
+    it("should try untried actions before anything else", () => {
+      const rng = new SeededRandom(1);
+      const ctx = context({ qValues: [100, 0, 0, 0], counts: [5, 0, 3, 0] });
+      for (let i = 0; i < 20; i++) {
+        expect([Action.RIGHT, Action.LEFT]).toContain(choose(ctx, rng));
+      }
+    });
+
+    it("should favour a rarely tried action with a similar value", () => {
+      const ctx = context({ qValues: [1, 1, 1, 1.2], counts: [50, 50, 1, 50] });
+      expect(choose(ctx, new SeededRandom(1))).toBe(Action.DOWN);
+    });
+
+    it("should exploit once the bonus is switched off", () => {
+      const ctx = context({ qValues: [1, 1, 1, 1.2], counts: [50, 50, 1, 50], ucbC: 0 });
+      expect(choose(ctx, new SeededRandom(1))).toBe(Action.LEFT);
+    });
+  });
+});
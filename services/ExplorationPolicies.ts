@@ -0,0 +1,100 @@
+import { Action, ExplorationConfig, ExplorationStrategy } from '../types';
+import { SeededRandom } from './SeededRandom';
+
+// What a policy sees when picking an action in one state
+export type ExplorationContext = {
+  qValues: number[];
+  // Times each action has been taken from this state (UCB1)
+  counts: number[];
+  epsilon: number;
+  temperature: number;
+  ucbC: number;
+};
+
+// A policy gives its full action distribution, which Expected SARSA needs, and samples from it.
+// choose() can draw differently from sampling probabilities() as long as the distribution matches.
+export type ExplorationPolicy = {
+  probabilities: (ctx: ExplorationContext) => number[];
+  choose: (ctx: ExplorationContext, rng: SeededRandom) => Action;
+};
+
+export const EXPLORATION_STRATEGIES: { id: ExplorationStrategy; label: string; description: string }[] = [
+  { id: 'epsilon-greedy', label: 'ε-Greedy', description: 'Random move with probability ε, otherwise the best known one.' },
+  { id: 'boltzmann', label: 'Boltzmann', description: 'Softmax over Q-values; high temperature is random, low is greedy.' },
+  { id: 'ucb1', label: 'UCB1', description: 'Adds a bonus to rarely tried actions so every option gets tested.' },
+];
+
+export const DEFAULT_EXPLORATION: ExplorationConfig = {
+  strategy: 'epsilon-greedy',
+  temperature: 10,
+  minTemperature: 0.1,
+  temperatureDecay: 0.99,
+  ucbC: 2,
+  initialQ: 0,
+};
+
+const ACTIONS: Action[] = [Action.UP, Action.RIGHT, Action.DOWN, Action.LEFT];
+
+const argmaxSet = (values: number[]): Action[] => {
+  const max = Math.max(...values);
+  return ACTIONS.filter(a => values[a] === max);
+};
+
+const uniformOver = (actions: Action[]): number[] =>
+  ACTIONS.map(a => (actions.includes(a) ? 1 / actions.length : 0));
+
+const sample = (probabilities: number[], rng: SeededRandom): Action => {
+  let r = rng.next();
+  for (const a of ACTIONS) {
+    r -= probabilities[a];
+    if (r < 0) return a;
+  }
+  return ACTIONS[ACTIONS.length - 1];
+};
+
+const epsilonGreedy: ExplorationPolicy = {
+  probabilities: ({ qValues, epsilon }) => {
+    const greedy = uniformOver(argmaxSet(qValues));
+    return greedy.map(p => epsilon / ACTIONS.length + (1 - epsilon) * p);
+  },
+  choose: ({ qValues, epsilon }, rng) => {
+    if (rng.next() < epsilon) {
+      return ACTIONS[rng.nextInt(ACTIONS.length)];
+    }
+    const bestActions = argmaxSet(qValues);
+    return bestActions[rng.nextInt(bestActions.length)];
+  },
+};
+
+const boltzmann: ExplorationPolicy = {
+  probabilities: ({ qValues, temperature }) => {
+    // Shifting by the max keeps exp() from overflowing with large rewards
+    const maxQ = Math.max(...qValues);
+    const weights = qValues.map(q => Math.exp((q - maxQ) / Math.max(temperature, 1e-6)));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return weights.map(w => w / total);
+  },
+  choose: (ctx, rng) => sample(boltzmann.probabilities(ctx), rng),
+};
+
+// Untried actions go first; after that Q(s,a) + c·√(ln N(s) / N(s,a))
+const ucbCandidates = ({ qValues, counts, ucbC }: ExplorationContext): Action[] => {
+  const untried = ACTIONS.filter(a => counts[a] === 0);
+  if (untried.length > 0) return untried;
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  return argmaxSet(qValues.map((q, a) => q + ucbC * Math.sqrt(Math.log(total) / counts[a])));
+};
+
+const ucb1: ExplorationPolicy = {
+  probabilities: ctx => uniformOver(ucbCandidates(ctx)),
+  choose: (ctx, rng) => {
+    const candidates = ucbCandidates(ctx);
+    return candidates[rng.nextInt(candidates.length)];
+  },
+};
+
+export const EXPLORATION_POLICIES: Record<ExplorationStrategy, ExplorationPolicy> = {
+  'epsilon-greedy': epsilonGreedy,
+  boltzmann,
+  ucb1,
+};
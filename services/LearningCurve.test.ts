@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { movingAverage, downsample } from "./LearningCurve";
+
+describe("LearningCurve", () => {
+  describe("movingAverage", () => {
+    it("should return the values unchanged for a window of 1", () => {
+      expect(movingAverage([3, 1, 4, 1, 5], 1)).toEqual([3, 1, 4, 1, 5]);
+    });
+
+    it("should average over a trailing window", () => {
+      expect(movingAverage([2, 4, 6, 8], 2)).toEqual([2, 3, 5, 7]);
+    });
+
+    it("should average over the available points at the start", () => {
+      expect(movingAverage([3, 6, 9, 12], 3)).toEqual([3, 4.5, 6, 9]);
+    });
+
+    it("should handle an empty series", () => {
+      expect(movingAverage([], 5)).toEqual([]);
+    });
+
+    it("should treat windows below 1 as 1", () => {
+      expect(movingAverage([1, 2], 0)).toEqual([1, 2]);
+    });
+  });
+
+  describe("downsample", () => {
+    it("should leave short series untouched", () => {
+      const values = [1, 2, 3];
+      expect(downsample(values, 10)).toBe(values);
+    });
+
+    it("should average buckets down to the point limit", () => {
+      expect(downsample([1, 3, 5, 7, 9, 11], 3)).toEqual([2, 6, 10]);
+    });
+
+    it("should return exactly maxPoints values", () => {
+      const values = Array.from({ length: 1000 }, (_, i) => i);
+      expect(downsample(values, 300)).toHaveLength(300);
+    });
+  });
+});
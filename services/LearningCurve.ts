@@ -0,0 +1,30 @@
+// Trailing moving average: each point averages itself and up to window-1 earlier points
+export function movingAverage(values: number[], window: number): number[] {
+  const size = Math.max(1, Math.floor(window));
+  const result: number[] = [];
+  let sum = 0;
+
+  values.forEach((value, i) => {
+    sum += value;
+    if (i >= size) sum -= values[i - size];
+    result.push(sum / Math.min(i + 1, size));
+  });
+
+  return result;
+}
+
+// Averages consecutive buckets so long runs still draw as a few hundred points
+export function downsample(values: number[], maxPoints: number): number[] {
+  if (values.length <= maxPoints) return values;
+
+  const bucketSize = values.length / maxPoints;
+  const result: number[] = [];
+  for (let i = 0; i < maxPoints; i++) {
+    const start = Math.floor(i * bucketSize);
+    const end = Math.floor((i + 1) * bucketSize);
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += values[j];
+    result.push(sum / (end - start));
+  }
+  return result;
+}
@@ -0,0 +1,455 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  MazeEnvironment,
+  DEFAULT_MAX_STEPS,
+  DEFAULT_REWARDS,
+  DEFAULT_DYNAMICS,
+} from "./MazeEnvironment";
+import { Action, MazeCell } from "../types";
+
+// 3x3 open grid with a single wall in the centre
+const buildGrid = (): MazeCell[][] =>
+  Array.from({ length: 3 }, (_, y) =>
+    Array.from({ length: 3 }, (_, x) => ({
+      x,
+      y,
+      isWall: x === 1 && y === 1,
+    }))
+  );
+
+describe("MazeEnvironment", () => {
+  let env: MazeEnvironment;
+
+  beforeEach(() => {
+    env = new MazeEnvironment(buildGrid(), { x: 0, y: 0 }, { x: 2, y: 0 });
+  });
+
+  describe("constructor", () => {
+    it("should start the agent at the start position", () => {
+      expect(env.getPosition()).toEqual({ x: 0, y: 0 });
+      expect(env.getStepCount()).toBe(0);
+    });
+
+    it("should use the default step limit", () => {
+      expect(env.maxSteps).toBe(DEFAULT_MAX_STEPS);
+    });
+
+    it("should use the default reward schema", () => {
+      expect(env.rewards).toEqual(DEFAULT_REWARDS);
+    });
+
+    it("should derive dimensions from the grid", () => {
+      expect(env.width).toBe(3);
+      expect(env.height).toBe(3);
+    });
+  });
+
+  describe("step", () => {
+    it("should move the agent and apply the step cost", () => {
+      const result = env.step(Action.RIGHT);
+
+      expect(result.nextState).toEqual({ x: 1, y: 0 });
+      expect(result.reward).toBe(-1);
+      expect(result.done).toBe(false);
+      expect(result.truncated).toBe(false);
+      expect(result.info).toEqual({
+        move: Action.RIGHT,
+        slipped: false,
+        hitWall: false,
+        reachedGoal: false,
+        trapped: false,
+        teleported: false,
+        pickedUp: false,
+        revisited: false,
+        shapingBonus: 0,
+        step: 1,
+      });
+    });
+
+    it("should keep the agent in place when walking out of bounds", () => {
+      const result = env.step(Action.UP);
+
+      expect(result.nextState).toEqual({ x: 0, y: 0 });
+      expect(result.reward).toBe(-100);
+      expect(result.info.hitWall).toBe(true);
+    });
+
+    it("should keep the agent in place when bumping into a wall", () => {
+      env.step(Action.DOWN);
+      const result = env.step(Action.RIGHT);
+
+      expect(result.nextState).toEqual({ x: 0, y: 1 });
+      expect(result.reward).toBe(-100);
+      expect(result.info.hitWall).toBe(true);
+    });
+
+    it("should reward and finish the episode at the goal", () => {
+      env.step(Action.RIGHT);
+      const result = env.step(Action.RIGHT);
+
+      expect(result.nextState).toEqual({ x: 2, y: 0 });
+      expect(result.reward).toBe(1000);
+      expect(result.done).toBe(true);
+      expect(result.info.reachedGoal).toBe(true);
+    });
+
+    it("should truncate the episode at the step limit", () => {
+      env.maxSteps = 3;
+      env.step(Action.UP);
+      expect(env.step(Action.UP).truncated).toBe(false);
+
+      const result = env.step(Action.UP);
+      expect(result.truncated).toBe(true);
+      expect(result.done).toBe(false);
+    });
+
+    it("should not report truncation when the goal is reached on the last step", () => {
+      env.maxSteps = 2;
+      env.step(Action.RIGHT);
+      const result = env.step(Action.RIGHT);
+
+      expect(result.done).toBe(true);
+      expect(result.truncated).toBe(false);
+    });
+
+    it("should return a copy of the position", () => {
+      const result = env.step(Action.RIGHT);
+      result.nextState.x = 99;
+
+      expect(env.getPosition()).toEqual({ x: 1, y: 0 });
+    });
+  });
+
+  describe("reward schema", () => {
+    it("should use the configured step, wall and goal rewards", () => {
+      env.rewards = {
+        ...DEFAULT_REWARDS,
+        stepCost: -2,
+        wallPenalty: -10,
+        goalReward: 50,
+      };
+
+      expect(env.step(Action.UP).reward).toBe(-10);
+      expect(env.step(Action.RIGHT).reward).toBe(-2);
+      expect(env.step(Action.RIGHT).reward).toBe(50);
+    });
+
+    it("should add the revisit penalty when re-entering a cell", () => {
+      env.rewards = { ...DEFAULT_REWARDS, revisitPenalty: -5 };
+
+      env.step(Action.RIGHT);
+      const result = env.step(Action.LEFT);
+
+      expect(result.reward).toBe(-6);
+      expect(result.info.revisited).toBe(true);
+    });
+
+    it("should forget visited cells on reset", () => {
+      env.rewards = { ...DEFAULT_REWARDS, revisitPenalty: -5 };
+      env.step(Action.RIGHT);
+      env.reset();
+
+      expect(env.step(Action.RIGHT).info.revisited).toBe(false);
+    });
+
+    it("should add potential-based shaping towards the goal", () => {
+      env.rewards = { ...DEFAULT_REWARDS, shapingScale: 1 };
+      env.gamma = 1;
+
+      // Distance 2 -> 1: F = -1 - (-2) = 1
+      const closer = env.step(Action.RIGHT);
+      expect(closer.info.shapingBonus).toBeCloseTo(1);
+      expect(closer.reward).toBeCloseTo(0);
+
+      // Distance 1 -> 2: F = -2 - (-1) = -1
+      const further = env.step(Action.LEFT);
+      expect(further.info.shapingBonus).toBeCloseTo(-1);
+    });
+
+    it("should treat the goal as zero potential", () => {
+      env.rewards = { ...DEFAULT_REWARDS, shapingScale: 1 };
+      env.gamma = 0.9;
+      env.step(Action.RIGHT);
+
+      // Φ(s) = -1, Φ(goal) = 0: F = 0.9 * 0 - (-1) = 1
+      const result = env.step(Action.RIGHT);
+      expect(result.info.shapingBonus).toBeCloseTo(1);
+      expect(result.reward).toBeCloseTo(1001);
+    });
+  });
+
+  describe("slippery floor", () => {
+    const slippery = (grid: MazeCell[][], slipProbability: number, seed = 3) =>
+      new MazeEnvironment(
+        grid,
+        { x: 0, y: 0 },
+        { x: 2, y: 2 },
+        DEFAULT_MAX_STEPS,
+        DEFAULT_REWARDS,
+        { ...DEFAULT_DYNAMICS, slipProbability },
+        seed
+      );
+
+    it("should turn sideways or stay put when a move slips", () => {
+      const env = slippery(buildGrid(), 1);
+      const moves = Array.from({ length: 60 }, () => {
+        env.reset();
+        return env.step(Action.RIGHT).info;
+      });
+
+      moves.forEach((info) => expect(info.slipped).toBe(true));
+      expect(new Set(moves.map((info) => info.move))).toEqual(
+        new Set([Action.UP, Action.DOWN, null])
+      );
+    });
+
+    it("should only charge the step cost for slipping in place", () => {
+      const env = slippery(buildGrid(), 1);
+      let result = env.step(Action.RIGHT);
+      while (result.info.move !== null) {
+        env.reset();
+        result = env.step(Action.RIGHT);
+      }
+
+      expect(result.nextState).toEqual({ x: 0, y: 0 });
+      expect(result.reward).toBe(-1);
+      expect(result.info.hitWall).toBe(false);
+      expect(result.info.revisited).toBe(false);
+    });
+
+    it("should slip on ice tiles only", () => {
+      const grid = buildGrid();
+      grid[0][0].cellType = "ice";
+      const env = slippery(grid, 0);
+      env.dynamics.iceSlipProbability = 1;
+
+      expect(env.step(Action.RIGHT).info.slipped).toBe(true);
+      env.setLayout(grid, { x: 0, y: 2 }, { x: 2, y: 0 });
+      for (let i = 0; i < 20; i++) {
+        env.reset();
+        expect(env.step(Action.RIGHT).info.slipped).toBe(false);
+      }
+    });
+
+    it("should repeat the same slips from the same seed", () => {
+      const run = (seed: number) => {
+        const env = slippery(buildGrid(), 0.5, seed);
+        return Array.from({ length: 30 }, () => env.step(Action.DOWN).info.move);
+      };
+
+      expect(run(9)).toEqual(run(9));
+    });
+  });
+
+  describe("cell types", () => {
+    const open = (): MazeCell[][] =>
+      buildGrid().map((row) => row.map((cell) => ({ ...cell, isWall: false })));
+
+    it("should end the episode with the trap penalty on a trap", () => {
+      const grid = open();
+      grid[0][1].cellType = "trap";
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      const result = env.step(Action.RIGHT);
+
+      expect(result.reward).toBe(DEFAULT_REWARDS.trapPenalty);
+      expect(result.done).toBe(true);
+      expect(result.info.trapped).toBe(true);
+      expect(result.info.reachedGoal).toBe(false);
+    });
+
+    it("should add the mud cost to the step cost", () => {
+      const grid = open();
+      grid[0][1].cellType = "mud";
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      expect(env.step(Action.RIGHT).reward).toBe(
+        DEFAULT_REWARDS.stepCost + DEFAULT_REWARDS.mudCost
+      );
+    });
+
+    it("should only cross one-way tiles along their arrow", () => {
+      const grid = open();
+      grid[0][1] = { ...grid[0][1], cellType: "one-way", direction: Action.RIGHT };
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      expect(env.step(Action.RIGHT).nextState).toEqual({ x: 1, y: 0 });
+      expect(env.step(Action.DOWN).info.hitWall).toBe(true);
+      expect(env.step(Action.RIGHT).nextState).toEqual({ x: 2, y: 0 });
+      expect(env.step(Action.LEFT).info.hitWall).toBe(true);
+    });
+
+    it("should jump to the partner of a linked teleporter", () => {
+      const grid = open();
+      grid[0][1] = { ...grid[0][1], cellType: "teleporter", link: 0 };
+      grid[2][1] = { ...grid[2][1], cellType: "teleporter", link: 0 };
+      grid[2][0] = { ...grid[2][0], cellType: "teleporter", link: 1 };
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      const result = env.step(Action.RIGHT);
+      expect(result.nextState).toEqual({ x: 1, y: 2 });
+      expect(result.info.teleported).toBe(true);
+
+      // A link with a single end is plain floor
+      env.reset();
+      env.step(Action.DOWN);
+      expect(env.step(Action.DOWN).nextState).toEqual({ x: 0, y: 2 });
+    });
+
+    it("should open a door once its key is held and forget keys on reset", () => {
+      const grid = open();
+      grid[0][1] = { ...grid[0][1], cellType: "door", link: 0 };
+      grid[1][0] = { ...grid[1][0], cellType: "key", link: 0 };
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      expect(env.step(Action.RIGHT).info.hitWall).toBe(true);
+      expect(env.step(Action.DOWN).nextState).toEqual({ x: 0, y: 1, keys: 1 });
+      env.step(Action.UP);
+      expect(env.step(Action.RIGHT).nextState).toEqual({ x: 1, y: 0, keys: 1 });
+
+      expect(env.reset()).toEqual({ x: 0, y: 0 });
+      expect(env.isBlocked(1, 0)).toBe(true);
+    });
+  });
+
+  describe("multiple goals", () => {
+    const open = (): MazeCell[][] =>
+      buildGrid().map((row) => row.map((cell) => ({ ...cell, isWall: false })));
+
+    it("should finish with its own reward at a terminal extra goal", () => {
+      const grid = open();
+      grid[1][0] = { ...grid[1][0], cellType: "extra-goal", reward: 20 };
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      const result = env.step(Action.DOWN);
+
+      expect(result.reward).toBe(20);
+      expect(result.done).toBe(true);
+      expect(result.info.reachedGoal).toBe(true);
+    });
+
+    it("should pay a non-terminal goal once per episode and remember it in the state", () => {
+      const grid = open();
+      grid[0][1] = { ...grid[0][1], cellType: "extra-goal", reward: 50, terminal: false };
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      const first = env.step(Action.RIGHT);
+      expect(first.reward).toBe(DEFAULT_REWARDS.stepCost + 50);
+      expect(first.done).toBe(false);
+      expect(first.info.pickedUp).toBe(true);
+      expect(first.nextState.keys).toBeDefined();
+
+      env.step(Action.LEFT);
+      const second = env.step(Action.RIGHT);
+      expect(second.reward).toBe(DEFAULT_REWARDS.stepCost);
+      expect(second.info.pickedUp).toBe(false);
+
+      env.reset();
+      expect(env.step(Action.RIGHT).info.pickedUp).toBe(true);
+    });
+
+    it("should end the episode once every collectible is picked up", () => {
+      const grid = open();
+      grid[0][1] = { ...grid[0][1], cellType: "collectible", reward: 10 };
+      grid[0][2] = { ...grid[0][2], cellType: "collectible", reward: 10 };
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      expect(env.step(Action.RIGHT).done).toBe(false);
+      const last = env.step(Action.RIGHT);
+      expect(last.reward).toBe(DEFAULT_REWARDS.stepCost + 10);
+      expect(last.done).toBe(true);
+      expect(last.info.reachedGoal).toBe(true);
+    });
+  });
+
+  describe("timed tiles", () => {
+    const open = (): MazeCell[][] =>
+      buildGrid().map((row) => row.map((cell) => ({ ...cell, isWall: false })));
+
+    it("should keep a gate closed for its period and then open it", () => {
+      const grid = open();
+      grid[0][1] = { ...grid[0][1], cellType: "gate", period: 2 };
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      expect(env.step(Action.RIGHT).info.hitWall).toBe(true);
+      expect(env.step(Action.RIGHT).info.hitWall).toBe(true);
+      expect(env.step(Action.RIGHT).nextState).toEqual({ x: 1, y: 0 });
+    });
+
+    it("should end the episode when a patrol reaches the agent", () => {
+      const grid = open();
+      grid[2][0] = { ...grid[2][0], cellType: "patrol", link: 0, order: 0, period: 1 };
+      grid[1][0] = { ...grid[1][0], cellType: "patrol", link: 0, order: 1, period: 1 };
+      const env = new MazeEnvironment(grid, { x: 0, y: 0 }, { x: 2, y: 2 });
+
+      // The hazard is on (0,1) after the first step, where the agent walks into it
+      const result = env.step(Action.DOWN);
+
+      expect(result.done).toBe(true);
+      expect(result.reward).toBe(DEFAULT_REWARDS.trapPenalty);
+      expect(result.info.trapped).toBe(true);
+    });
+
+    it("should copy the layout and settings into an independent environment", () => {
+      env.observation = { encoder: "local", neighbours: 4, compass: false, historyLength: 3 };
+      env.step(Action.RIGHT);
+
+      const copy = env.copy(1);
+
+      expect(copy.getPosition()).toEqual({ x: 0, y: 0, obs: "1001" });
+      copy.step(Action.DOWN);
+      expect(env.getPosition()).toEqual({ x: 1, y: 0, obs: "1010" });
+    });
+
+    it("should swap the grid but keep the endpoints with setGrid", () => {
+      const grid = open();
+      grid[0][1].isWall = true;
+      env.step(Action.DOWN);
+
+      env.setGrid(grid);
+
+      expect(env.getPosition()).toEqual({ x: 0, y: 0 });
+      expect(env.step(Action.RIGHT).info.hitWall).toBe(true);
+    });
+  });
+
+  describe("observation", () => {
+    it("should describe the state by the surrounding walls under the local encoder", () => {
+      env.observation = { encoder: "local", neighbours: 4, compass: true, historyLength: 3 };
+
+      // Up and left are outside the maze, the goal lies due east
+      expect(env.reset()).toEqual({ x: 0, y: 0, obs: "1001:E" });
+    });
+
+    it("should string recent views together and forget them on reset", () => {
+      env.observation = { encoder: "history", neighbours: 4, compass: true, historyLength: 2 };
+      env.reset();
+
+      expect(env.step(Action.RIGHT).nextState.obs).toBe("1001:E 1010:E");
+      expect(env.reset().obs).toBe("1001:E");
+    });
+  });
+
+  describe("reset", () => {
+    it("should return the agent to the start and clear the step count", () => {
+      env.step(Action.RIGHT);
+      env.step(Action.DOWN);
+
+      const state = env.reset();
+
+      expect(state).toEqual({ x: 0, y: 0 });
+      expect(env.getStepCount()).toBe(0);
+    });
+  });
+
+  describe("setLayout", () => {
+    it("should swap the grid and endpoints and reset the episode", () => {
+      env.step(Action.RIGHT);
+      env.setLayout(buildGrid(), { x: 0, y: 2 }, { x: 0, y: 1 });
+
+      expect(env.getPosition()).toEqual({ x: 0, y: 2 });
+      expect(env.getStepCount()).toBe(0);
+      expect(env.step(Action.UP).done).toBe(true);
+    });
+  });
+});
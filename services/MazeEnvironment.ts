@@ -0,0 +1,303 @@
+import { Action, DynamicsConfig, MazeCell, ObservationConfig, Position, RewardConfig, StepResult } from '../types';
+import { SeededRandom, randomSeed } from './SeededRandom';
+import { DEFAULT_TILE_REWARD, Patrol, againstOneWay, isGateOpen, patrolPosition, patrolsOf, pickupBits, teleporterPartners } from './CellTypes';
+import { DEFAULT_OBSERVATION, ENCODERS, localView } from './StateEncoders';
+
+export const DEFAULT_MAX_STEPS = 2000;
+
+export const DEFAULT_REWARDS: RewardConfig = {
+  stepCost: -1,
+  wallPenalty: -100,
+  goalReward: 1000,
+  revisitPenalty: 0,
+  shapingScale: 0,
+  mudCost: -5,
+  trapPenalty: -500,
+};
+
+// Fully deterministic by default; ice only matters once painted into the maze
+export const DEFAULT_DYNAMICS: DynamicsConfig = {
+  slipProbability: 0,
+  iceSlipProbability: 0.5,
+};
+
+export const DETERMINISTIC_DYNAMICS: DynamicsConfig = {
+  slipProbability: 0,
+  iceSlipProbability: 0,
+};
+
+const ACTION_DELTAS: Record<Action, Position> = {
+  [Action.UP]: { x: 0, y: -1 },
+  [Action.RIGHT]: { x: 1, y: 0 },
+  [Action.DOWN]: { x: 0, y: 1 },
+  [Action.LEFT]: { x: -1, y: 0 },
+};
+
+// Headless grid world: owns the agent position and step counter, knows nothing about rendering
+export class MazeEnvironment {
+  public maxSteps: number;
+  public rewards: RewardConfig;
+  public gamma: number = 0.9; // Discount used by potential-based shaping, should match the agent
+  public dynamics: DynamicsConfig;
+  public observation: ObservationConfig = { ...DEFAULT_OBSERVATION };
+
+  private grid: MazeCell[][];
+  private startPos: Position;
+  private goalPos: Position;
+  private position: Position;
+  private stepCount: number = 0;
+  private visited = new Set<string>();
+  // Key pairs and pickups taken this episode, one bit each
+  private keys: number = 0;
+  // Each linked teleporter's partner, by "x,y"
+  private teleports = new Map<string, Position>();
+  // Bit of each one-shot goal and collectible, by "x,y"
+  private pickups = new Map<string, number>();
+  // All collectible bits; holding every one of them ends the episode
+  private collectibleMask: number = 0;
+  private patrols: Patrol[] = [];
+  // Local views from earlier steps this episode, oldest first, for the history encoder
+  private earlierViews: string[] = [];
+  // Slip draws only, so deterministic mazes never touch it
+  private rng: SeededRandom;
+
+  constructor(
+    grid: MazeCell[][],
+    startPos: Position,
+    goalPos: Position,
+    maxSteps: number = DEFAULT_MAX_STEPS,
+    rewards: RewardConfig = DEFAULT_REWARDS,
+    dynamics: DynamicsConfig = DEFAULT_DYNAMICS,
+    seed: number = randomSeed()
+  ) {
+    this.grid = grid;
+    this.startPos = { ...startPos };
+    this.goalPos = { ...goalPos };
+    this.position = { ...startPos };
+    this.maxSteps = maxSteps;
+    this.rewards = { ...rewards };
+    this.dynamics = { ...dynamics };
+    this.rng = new SeededRandom(seed);
+    this.visited.add(`${startPos.x},${startPos.y}`);
+    this.linkTeleporters();
+    this.indexPickups();
+  }
+
+  public get width(): number {
+    return this.grid[0]?.length ?? 0;
+  }
+
+  public get height(): number {
+    return this.grid.length;
+  }
+
+  // The agent's state: its cell plus any keys it holds, and what it sees when the encoder hides the cell
+  public getPosition(): Position {
+    const state: Position = this.keys ? { ...this.position, keys: this.keys } : { ...this.position };
+    const obs = ENCODERS[this.observation.encoder](() => this.view(), this.earlierViews, this.observation);
+    if (obs !== undefined) state.obs = obs;
+    return state;
+  }
+
+  // Walls around the agent as they stand right now, so closed doors and gates look like walls
+  private view(): string {
+    return localView((x, y) => this.isBlocked(x, y), this.position, this.goalPos, this.observation);
+  }
+
+  public getStepCount(): number {
+    return this.stepCount;
+  }
+
+  public setLayout(grid: MazeCell[][], startPos: Position, goalPos: Position): void {
+    this.grid = grid;
+    this.startPos = { ...startPos };
+    this.goalPos = { ...goalPos };
+    this.linkTeleporters();
+    this.indexPickups();
+    this.reset();
+  }
+
+  // A separate environment on the same layout and settings, so evaluation runs leave a live episode alone
+  public copy(seed: number = randomSeed()): MazeEnvironment {
+    const env = new MazeEnvironment(this.grid, this.startPos, this.goalPos, this.maxSteps, this.rewards, this.dynamics, seed);
+    env.gamma = this.gamma;
+    env.observation = { ...this.observation };
+    return env;
+  }
+
+  // Swaps the maze under the same start and goal, for layout shifts mid-training
+  public setGrid(grid: MazeCell[][]): void {
+    this.setLayout(grid, this.startPos, this.goalPos);
+  }
+
+  private linkTeleporters(): void {
+    this.teleports = teleporterPartners(this.grid);
+  }
+
+  private indexPickups(): void {
+    this.patrols = patrolsOf(this.grid);
+    this.pickups = pickupBits(this.grid);
+    this.collectibleMask = 0;
+    this.pickups.forEach((bit, key) => {
+      const [x, y] = key.split(',').map(Number);
+      if (this.grid[y][x].cellType === 'collectible') this.collectibleMask |= 1 << bit;
+    });
+  }
+
+  public reseed(seed: number): void {
+    this.rng = new SeededRandom(seed);
+  }
+
+  public reset(): Position {
+    this.position = { ...this.startPos };
+    this.stepCount = 0;
+    this.keys = 0;
+    this.earlierViews = [];
+    this.visited = new Set([`${this.startPos.x},${this.startPos.y}`]);
+    return this.getPosition();
+  }
+
+  private cellAt(x: number, y: number): MazeCell | undefined {
+    return this.grid[y]?.[x];
+  }
+
+  private hasKey(link: number | undefined): boolean {
+    return link !== undefined && (this.keys & (1 << link)) !== 0;
+  }
+
+  // Walls, the outside, doors whose key the agent does not hold yet, and gates closed at this step
+  public isBlocked(x: number, y: number): boolean {
+    const cell = this.cellAt(x, y);
+    if (!cell || cell.isWall) return true;
+    if (cell.cellType === 'gate') return !isGateOpen(cell, this.stepCount);
+    return cell.cellType === 'door' && !this.hasKey(cell.link);
+  }
+
+  // Patrols move on the same clock as the agent, so a hazard stepping onto a standing agent catches it too
+  private caughtByPatrol(step: number): boolean {
+    return this.patrols.some(patrol => {
+      const hazard = patrolPosition(patrol, step);
+      return hazard.x === this.position.x && hazard.y === this.position.y;
+    });
+  }
+
+  private againstOneWay(from: Position, to: Position, move: Action): boolean {
+    return againstOneWay(this.cellAt(from.x, from.y), move) || againstOneWay(this.cellAt(to.x, to.y), move);
+  }
+
+  // Φ(s) for potential-based shaping: closer to the goal means higher potential
+  private potential(pos: Position): number {
+    const distance = Math.abs(this.goalPos.x - pos.x) + Math.abs(this.goalPos.y - pos.y);
+    return -this.rewards.shapingScale * distance;
+  }
+
+  private slipChance(pos: Position): number {
+    const { slipProbability, iceSlipProbability } = this.dynamics;
+    return this.cellAt(pos.x, pos.y)?.cellType === 'ice' ? Math.max(slipProbability, iceSlipProbability) : slipProbability;
+  }
+
+  // A slip picks one of the two perpendicular directions or staying put, each equally likely
+  private resolveMove(action: Action): Action | null {
+    const chance = this.slipChance(this.position);
+    if (chance <= 0 || this.rng.next() >= chance) return action;
+    const outcome = this.rng.nextInt(3);
+    return outcome === 2 ? null : ((action + (outcome === 0 ? 1 : 3)) % 4) as Action;
+  }
+
+  // `move` is normally drawn from the dynamics; replays pass the recorded one, null for a slip in place
+  public step(action: Action, move: Action | null = this.resolveMove(action)): StepResult {
+    if (this.observation.encoder === 'history') {
+      this.earlierViews.push(this.view());
+      this.earlierViews.splice(0, Math.max(0, this.earlierViews.length - this.observation.historyLength + 1));
+    }
+    const slipped = move !== action;
+    const prevPos = this.position;
+    const delta = move === null ? { x: 0, y: 0 } : ACTION_DELTAS[move];
+    const nextX = prevPos.x + delta.x;
+    const nextY = prevPos.y + delta.y;
+
+    let reward = this.rewards.stepCost;
+    let reachedGoal = false;
+    let trapped = false;
+    let teleported = false;
+    let pickedUp = false;
+    let revisited = false;
+    const hitWall = move !== null && (
+      this.isBlocked(nextX, nextY) || this.againstOneWay(prevPos, { x: nextX, y: nextY }, move)
+    );
+
+    // A slip in place skips both branches and only costs the step
+    if (hitWall) {
+      // Bumping into a wall keeps the agent in place
+      reward = this.rewards.wallPenalty;
+    } else if (move !== null) {
+      const entered = this.cellAt(nextX, nextY) as MazeCell;
+      const partner = this.teleports.get(`${nextX},${nextY}`);
+      teleported = partner !== undefined;
+      this.position = partner ? { ...partner } : { x: nextX, y: nextY };
+      const key = `${this.position.x},${this.position.y}`;
+
+      if (this.position.x === this.goalPos.x && this.position.y === this.goalPos.y) {
+        reward = this.rewards.goalReward;
+        reachedGoal = true;
+      } else if (entered.cellType === 'trap') {
+        reward = this.rewards.trapPenalty;
+        trapped = true;
+      } else if (entered.cellType === 'extra-goal' && entered.terminal !== false) {
+        reward = entered.reward ?? this.rewards.goalReward;
+        reachedGoal = true;
+      } else {
+        if (entered.cellType === 'mud') reward += this.rewards.mudCost;
+        if (entered.cellType === 'key' && entered.link !== undefined) this.keys |= 1 << entered.link;
+        const pickup = this.pickups.get(`${nextX},${nextY}`);
+        if (pickup !== undefined && (this.keys & (1 << pickup)) === 0) {
+          this.keys |= 1 << pickup;
+          reward += entered.reward ?? DEFAULT_TILE_REWARD;
+          pickedUp = true;
+          reachedGoal = this.collectibleMask !== 0 && (this.keys & this.collectibleMask) === this.collectibleMask;
+        }
+        if (this.visited.has(key)) {
+          reward += this.rewards.revisitPenalty;
+          revisited = true;
+        }
+      }
+      this.visited.add(key);
+    }
+
+    if (!reachedGoal && !trapped && this.caughtByPatrol(this.stepCount + 1)) {
+      reward = this.rewards.trapPenalty;
+      trapped = true;
+    }
+
+    // Terminal states count as zero potential to keep shaping policy-invariant
+    const done = reachedGoal || trapped;
+    let shapingBonus = 0;
+    if (this.rewards.shapingScale !== 0) {
+      const nextPotential = done ? 0 : this.potential(this.position);
+      shapingBonus = this.gamma * nextPotential - this.potential(prevPos);
+      reward += shapingBonus;
+    }
+
+    this.stepCount += 1;
+    const truncated = !done && this.stepCount >= this.maxSteps;
+
+    return {
+      nextState: this.getPosition(),
+      reward,
+      done,
+      truncated,
+      info: {
+        move,
+        slipped,
+        hitWall,
+        reachedGoal,
+        trapped,
+        teleported,
+        pickedUp,
+        revisited,
+        shapingBonus,
+        step: this.stepCount,
+      },
+    };
+  }
+}
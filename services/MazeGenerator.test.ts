@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from "vitest";
-import { MazeGenerator } from "./MazeGenerator";
+import { MazeGenerator, SeededRandom, DEFAULT_SEED } from "./MazeGenerator";
 import { MazeCell } from "../types";
 
 describe("MazeGenerator", () => {
@@ -172,6 +172,64 @@ describe("MazeGenerator", () => {
     });
   });
 
+  describe("seed option", () => {
+    const wallPattern = (maze: MazeCell[][]) =>
+      maze.map((row) => row.map((cell) => (cell.isWall ? "#" : ".")).join(""));
+
+    it("should default to the classic seed", () => {
+      const explicit = new MazeGenerator(11, 11, { seed: DEFAULT_SEED });
+      expect(wallPattern(explicit.generate())).toEqual(
+        wallPattern(generator.generate())
+      );
+    });
+
+    it("should reproduce the same maze from the same seed", () => {
+      const a = new MazeGenerator(15, 15, { seed: 42 }).generate();
+      const b = new MazeGenerator(15, 15, { seed: 42 }).generate();
+      expect(wallPattern(a)).toEqual(wallPattern(b));
+    });
+
+    it("should produce different mazes from different seeds", () => {
+      const a = new MazeGenerator(15, 15, { seed: 1 }).generate();
+      const b = new MazeGenerator(15, 15, { seed: 2 }).generate();
+      expect(wallPattern(a)).not.toEqual(wallPattern(b));
+    });
+
+    it("should accept negative seeds", () => {
+      const maze = new MazeGenerator(9, 9, { seed: -7 }).generate();
+      expect(maze).toHaveLength(9);
+      expect(maze[0][0].isWall).toBe(false);
+    });
+  });
+
+  describe("SeededRandom", () => {
+    it("should draw integers below the bound", () => {
+      const rng = new SeededRandom(9);
+      for (let i = 0; i < 100; i++) {
+        const value = rng.nextInt(4);
+        expect(Number.isInteger(value)).toBe(true);
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(4);
+      }
+    });
+
+    it("should shuffle deterministically without losing items", () => {
+      const a = new SeededRandom(3).shuffle([1, 2, 3, 4, 5, 6]);
+      const b = new SeededRandom(3).shuffle([1, 2, 3, 4, 5, 6]);
+      expect(a).toEqual(b);
+      expect([...a].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it("should stay within [0, 1)", () => {
+      const rng = new SeededRandom(-12345);
+      for (let i = 0; i < 100; i++) {
+        const value = rng.next();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
   describe("SeededRandom behavior", () => {
     it("should produce different mazes with different seeds (structural test)", () => {
       // This tests that the RNG is actually being used deterministically
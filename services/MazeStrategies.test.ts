@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAZE_ALGORITHMS,
+  MAZE_STRATEGIES,
+  braidDeadEnds,
+} from "./MazeStrategies";
+import { MazeGenerator } from "./MazeGenerator";
+import { SeededRandom } from "./SeededRandom";
+import { MazeCell } from "../types";
+
+const solidGrid = (width: number, height: number): MazeCell[][] =>
+  Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => ({ x, y, isWall: true }))
+  );
+
+const reachableFrom = (grid: MazeCell[][], x: number, y: number) => {
+  const seen = new Set<string>([`${x},${y}`]);
+  const queue = [{ x, y }];
+  while (queue.length > 0) {
+    const pos = queue.shift()!;
+    for (const [dx, dy] of [
+      [0, -1],
+      [1, 0],
+      [0, 1],
+      [-1, 0],
+    ]) {
+      const nx = pos.x + dx;
+      const ny = pos.y + dy;
+      const key = `${nx},${ny}`;
+      if (grid[ny]?.[nx] && !grid[ny][nx].isWall && !seen.has(key)) {
+        seen.add(key);
+        queue.push({ x: nx, y: ny });
+      }
+    }
+  }
+  return seen;
+};
+
+const openCells = (grid: MazeCell[][]) =>
+  grid.flat().filter((c) => !c.isWall).length;
+
+// Nodes (odd coordinates) with a single open passage
+const countDeadEnds = (grid: MazeCell[][]) => {
+  let count = 0;
+  for (let y = 1; y < grid.length - 1; y += 2) {
+    for (let x = 1; x < grid[0].length - 1; x += 2) {
+      const exits = [
+        grid[y - 1][x],
+        grid[y + 1][x],
+        grid[y][x - 1],
+        grid[y][x + 1],
+      ].filter((c) => !c.isWall).length;
+      if (exits === 1) count += 1;
+    }
+  }
+  return count;
+};
+
+const pattern = (grid: MazeCell[][]) =>
+  grid.map((row) => row.map((c) => (c.isWall ? "#" : ".")).join("")).join("\n");
+
+describe("MazeStrategies", () => {
+  it("should list every strategy in the picker", () => {
+    expect(MAZE_ALGORITHMS.map((a) => a.id).sort()).toEqual(
+      Object.keys(MAZE_STRATEGIES).sort()
+    );
+  });
+
+  describe.each(MAZE_ALGORITHMS.map((a) => a.id))("%s", (algorithm) => {
+    it("should carve a perfect maze over the odd-coordinate nodes", () => {
+      const grid = solidGrid(15, 11);
+      MAZE_STRATEGIES[algorithm](grid, new SeededRandom(7));
+
+      // 7x5 nodes, all open and connected by exactly nodes - 1 passages
+      const nodes = 7 * 5;
+      let passages = 0;
+      for (let y = 1; y < 10; y++) {
+        for (let x = 1; x < 14; x++) {
+          const isNode = x % 2 === 1 && y % 2 === 1;
+          const isPassage = (x + y) % 2 === 1;
+          if (isNode) expect(grid[y][x].isWall).toBe(false);
+          if (isPassage && !grid[y][x].isWall) passages += 1;
+          if (x % 2 === 0 && y % 2 === 0) expect(grid[y][x].isWall).toBe(true);
+        }
+      }
+      expect(passages).toBe(nodes - 1);
+      expect(reachableFrom(grid, 1, 1).size).toBe(nodes + passages);
+    });
+
+    it("should keep the outer border solid", () => {
+      const grid = solidGrid(11, 11);
+      MAZE_STRATEGIES[algorithm](grid, new SeededRandom(3));
+      for (let i = 0; i < 11; i++) {
+        expect(grid[0][i].isWall).toBe(true);
+        expect(grid[10][i].isWall).toBe(true);
+        expect(grid[i][0].isWall).toBe(true);
+        expect(grid[i][10].isWall).toBe(true);
+      }
+    });
+
+    it("should connect start and goal through the generator", () => {
+      [
+        [15, 15],
+        [8, 12],
+        [21, 13],
+        [3, 3],
+      ].forEach(([width, height]) => {
+        const maze = new MazeGenerator(width, height, {
+          seed: 99,
+          algorithm,
+        }).generate();
+        expect(reachableFrom(maze, 0, 0).has(`${width - 1},${height - 1}`)).toBe(
+          true
+        );
+      });
+    });
+
+    it("should be reproducible from the seed", () => {
+      const a = new MazeGenerator(13, 13, { seed: 5, algorithm }).generate();
+      const b = new MazeGenerator(13, 13, { seed: 5, algorithm }).generate();
+      expect(pattern(a)).toBe(pattern(b));
+    });
+  });
+
+  it("should produce different layouts for different algorithms", () => {
+    const layouts = new Set(
+      MAZE_ALGORITHMS.map(({ id }) =>
+        pattern(new MazeGenerator(21, 21, { seed: 1, algorithm: id }).generate())
+      )
+    );
+    expect(layouts.size).toBe(MAZE_ALGORITHMS.length);
+  });
+
+  describe("braidDeadEnds", () => {
+    const perfect = () => {
+      const grid = solidGrid(21, 21);
+      MAZE_STRATEGIES.dfs(grid, new SeededRandom(11));
+      return grid;
+    };
+
+    it("should leave the maze untouched at ratio 0", () => {
+      const grid = perfect();
+      const before = pattern(grid);
+      braidDeadEnds(grid, new SeededRandom(1), 0);
+      expect(pattern(grid)).toBe(before);
+    });
+
+    it("should remove every dead end at ratio 1", () => {
+      const grid = perfect();
+      expect(countDeadEnds(grid)).toBeGreaterThan(0);
+      braidDeadEnds(grid, new SeededRandom(1), 1);
+      expect(countDeadEnds(grid)).toBe(0);
+    });
+
+    it("should only add passages, creating loops", () => {
+      const grid = perfect();
+      const before = grid.map((row) => row.map((c) => c.isWall));
+      const opened = openCells(grid);
+      braidDeadEnds(grid, new SeededRandom(1), 0.5);
+
+      grid.forEach((row, y) =>
+        row.forEach((c, x) => {
+          if (!before[y][x]) expect(c.isWall).toBe(false);
+        })
+      );
+      expect(openCells(grid)).toBeGreaterThan(opened);
+    });
+
+    it("should remove more dead ends as the ratio grows", () => {
+      const remaining = [0, 0.5, 1].map((braid) =>
+        countDeadEnds(
+          new MazeGenerator(31, 31, { seed: 4, braid }).generate()
+        )
+      );
+      expect(remaining[1]).toBeLessThan(remaining[0]);
+      expect(remaining[2]).toBeLessThan(remaining[1]);
+    });
+
+    it("should keep the default maze identical when braid is 0", () => {
+      const a = new MazeGenerator(15, 15).generate();
+      const b = new MazeGenerator(15, 15, { braid: 0 }).generate();
+      expect(pattern(b)).toBe(pattern(a));
+    });
+  });
+});
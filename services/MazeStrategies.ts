@@ -0,0 +1,317 @@
+import { MazeAlgorithm, MazeCell, Position } from '../types';
+import { SeededRandom } from './SeededRandom';
+
+// A strategy carves passages into a grid that starts out as solid wall.
+// Every strategy works on "nodes" at odd coordinates with the cells between them acting as walls,
+// so they all produce the same MazeCell[][] shape and can be swapped freely.
+export type MazeStrategy = (grid: MazeCell[][], rng: SeededRandom) => void;
+
+export const MAZE_ALGORITHMS: { id: MazeAlgorithm; label: string; description: string }[] = [
+  { id: 'dfs', label: 'Recursive Backtracker', description: 'Long winding corridors with few branches.' },
+  { id: 'prim', label: 'Randomized Prim', description: 'Many short dead ends radiating from the start.' },
+  { id: 'kruskal', label: 'Kruskal', description: 'Evenly spread branches with no directional bias.' },
+  { id: 'wilson', label: "Wilson's", description: 'Unbiased sample of all perfect mazes via loop-erased walks.' },
+  { id: 'eller', label: "Eller's", description: 'Built row by row, with horizontal runs and frequent forks.' },
+  { id: 'division', label: 'Recursive Division', description: 'Long straight walls that split the maze into rooms.' },
+];
+
+type Node = { i: number; j: number };
+
+const nodeCols = (grid: MazeCell[][]) => Math.floor((grid[0].length - 1) / 2);
+const nodeRows = (grid: MazeCell[][]) => Math.floor((grid.length - 1) / 2);
+const nodeKey = (n: Node) => n.j * 100000 + n.i;
+
+const openNode = (grid: MazeCell[][], n: Node) => {
+  grid[2 * n.j + 1][2 * n.i + 1].isWall = false;
+};
+
+// Opens the wall cell between two adjacent nodes, and both nodes themselves
+const connect = (grid: MazeCell[][], a: Node, b: Node) => {
+  openNode(grid, a);
+  openNode(grid, b);
+  grid[a.j + b.j + 1][a.i + b.i + 1].isWall = false;
+};
+
+const nodeNeighbors = (grid: MazeCell[][], n: Node): Node[] => {
+  const cols = nodeCols(grid);
+  const rows = nodeRows(grid);
+  return [
+    { i: n.i, j: n.j - 1 },
+    { i: n.i + 1, j: n.j },
+    { i: n.i, j: n.j + 1 },
+    { i: n.i - 1, j: n.j },
+  ].filter(m => m.i >= 0 && m.i < cols && m.j >= 0 && m.j < rows);
+};
+
+const allNodes = (grid: MazeCell[][]): Node[] => {
+  const nodes: Node[] = [];
+  for (let j = 0; j < nodeRows(grid); j++) {
+    for (let i = 0; i < nodeCols(grid); i++) nodes.push({ i, j });
+  }
+  return nodes;
+};
+
+// Depth-first recursive backtracker (the original generator, kept step for step so seeds reproduce the same mazes)
+export const carveRecursiveBacktracker: MazeStrategy = (grid, rng) => {
+  const width = grid[0].length;
+  const height = grid.length;
+
+  const getUnvisitedNeighbors = (pos: Position, visited: Set<string>): Position[] => {
+    const neighbors: Position[] = [];
+    const directions = [
+      { x: 0, y: -2 },
+      { x: 2, y: 0 },
+      { x: 0, y: 2 },
+      { x: -2, y: 0 },
+    ];
+
+    for (const dir of directions) {
+      const nx = pos.x + dir.x;
+      const ny = pos.y + dir.y;
+
+      if (
+        nx > 0 && nx < width - 1 &&
+        ny > 0 && ny < height - 1 &&
+        !visited.has(`${nx},${ny}`)
+      ) {
+        neighbors.push({ x: nx, y: ny });
+      }
+    }
+
+    return neighbors;
+  };
+
+  const stack: Position[] = [];
+  // Start DFS at an odd coordinate to align with the 2-step carving logic
+  const startNode: Position = { x: 1, y: 1 };
+  grid[startNode.y][startNode.x].isWall = false;
+  stack.push(startNode);
+
+  const visited = new Set<string>();
+  visited.add(`${startNode.x},${startNode.y}`);
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const neighbors = getUnvisitedNeighbors(current, visited);
+
+    if (neighbors.length > 0) {
+      // Deterministic choice based on seed
+      const next = neighbors[Math.floor(rng.next() * neighbors.length)];
+
+      // Remove the wall between current and next
+      const wallX = (current.x + next.x) / 2;
+      const wallY = (current.y + next.y) / 2;
+      grid[wallY][wallX].isWall = false;
+      grid[next.y][next.x].isWall = false;
+
+      visited.add(`${next.x},${next.y}`);
+      stack.push(next);
+    } else {
+      stack.pop();
+    }
+  }
+};
+
+// Randomized Prim: grow a single tree by attaching a random frontier node to a random tree neighbour
+export const carvePrim: MazeStrategy = (grid, rng) => {
+  const inTree = new Set<number>();
+  const inFrontier = new Set<number>();
+  const frontier: Node[] = [];
+
+  const addToTree = (n: Node) => {
+    inTree.add(nodeKey(n));
+    openNode(grid, n);
+    for (const m of nodeNeighbors(grid, n)) {
+      const key = nodeKey(m);
+      if (!inTree.has(key) && !inFrontier.has(key)) {
+        inFrontier.add(key);
+        frontier.push(m);
+      }
+    }
+  };
+
+  addToTree({ i: 0, j: 0 });
+  while (frontier.length > 0) {
+    const index = rng.nextInt(frontier.length);
+    const next = frontier[index];
+    frontier[index] = frontier[frontier.length - 1];
+    frontier.pop();
+
+    const treeNeighbors = nodeNeighbors(grid, next).filter(m => inTree.has(nodeKey(m)));
+    connect(grid, next, treeNeighbors[rng.nextInt(treeNeighbors.length)]);
+    addToTree(next);
+  }
+};
+
+// Randomized Kruskal: take walls in random order, knocking each down if it joins two separate trees
+export const carveKruskal: MazeStrategy = (grid, rng) => {
+  const parent = new Map<number, number>();
+  const find = (key: number): number => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    while (parent.get(key) !== root) {
+      const next = parent.get(key)!;
+      parent.set(key, root);
+      key = next;
+    }
+    return root;
+  };
+
+  const edges: [Node, Node][] = [];
+  for (const n of allNodes(grid)) {
+    parent.set(nodeKey(n), nodeKey(n));
+    openNode(grid, n);
+    if (n.i + 1 < nodeCols(grid)) edges.push([n, { i: n.i + 1, j: n.j }]);
+    if (n.j + 1 < nodeRows(grid)) edges.push([n, { i: n.i, j: n.j + 1 }]);
+  }
+
+  for (const [a, b] of rng.shuffle(edges)) {
+    const rootA = find(nodeKey(a));
+    const rootB = find(nodeKey(b));
+    if (rootA !== rootB) {
+      parent.set(rootA, rootB);
+      connect(grid, a, b);
+    }
+  }
+};
+
+// Wilson's: loop-erased random walks from each unvisited node until they hit the tree
+export const carveWilson: MazeStrategy = (grid, rng) => {
+  const nodes = allNodes(grid);
+  const inTree = new Set<number>();
+  const first = nodes[rng.nextInt(nodes.length)];
+  inTree.add(nodeKey(first));
+  openNode(grid, first);
+
+  for (const origin of nodes) {
+    if (inTree.has(nodeKey(origin))) continue;
+
+    // Remembering only the last exit from each node erases any loops the walk made
+    const exits = new Map<number, Node>();
+    let current = origin;
+    while (!inTree.has(nodeKey(current))) {
+      const neighbors = nodeNeighbors(grid, current);
+      const next = neighbors[rng.nextInt(neighbors.length)];
+      exits.set(nodeKey(current), next);
+      current = next;
+    }
+
+    current = origin;
+    while (!inTree.has(nodeKey(current))) {
+      const next = exits.get(nodeKey(current))!;
+      connect(grid, current, next);
+      inTree.add(nodeKey(current));
+      current = next;
+    }
+  }
+};
+
+// Eller's: one row at a time, merging neighbouring sets sideways and carrying every set down at least once
+export const carveEller: MazeStrategy = (grid, rng) => {
+  const cols = nodeCols(grid);
+  const rows = nodeRows(grid);
+  let sets: number[] = Array.from({ length: cols }, (_, i) => i);
+  let nextSet = cols;
+
+  for (let j = 0; j < rows; j++) {
+    const isLastRow = j === rows - 1;
+    for (let i = 0; i < cols; i++) openNode(grid, { i, j });
+
+    // Join horizontally; the last row must join everything left apart
+    for (let i = 0; i < cols - 1; i++) {
+      if (sets[i] !== sets[i + 1] && (isLastRow || rng.next() < 0.5)) {
+        connect(grid, { i, j }, { i: i + 1, j });
+        const merged = sets[i + 1];
+        sets = sets.map(s => (s === merged ? sets[i] : s));
+      }
+    }
+    if (isLastRow) break;
+
+    // Carry each set down: at least one vertical passage per set, the rest at random
+    const nextRow: number[] = Array(cols).fill(-1);
+    const members = new Map<number, number[]>();
+    sets.forEach((s, i) => members.set(s, [...(members.get(s) ?? []), i]));
+    members.forEach((cells, s) => {
+      const guaranteed = cells[rng.nextInt(cells.length)];
+      for (const i of cells) {
+        if (i === guaranteed || rng.next() < 0.3) {
+          connect(grid, { i, j }, { i, j: j + 1 });
+          nextRow[i] = s;
+        }
+      }
+    });
+    sets = nextRow.map(s => (s === -1 ? nextSet++ : s));
+  }
+};
+
+// Recursive division: start from an open field and keep splitting chambers with a wall that has one gap
+export const carveRecursiveDivision: MazeStrategy = (grid, rng) => {
+  const cols = nodeCols(grid);
+  const rows = nodeRows(grid);
+  for (const n of allNodes(grid)) {
+    if (n.i + 1 < cols) connect(grid, n, { i: n.i + 1, j: n.j });
+    if (n.j + 1 < rows) connect(grid, n, { i: n.i, j: n.j + 1 });
+  }
+  if (cols === 1 && rows === 1) openNode(grid, { i: 0, j: 0 });
+
+  const divide = (i0: number, j0: number, i1: number, j1: number) => {
+    const w = i1 - i0 + 1;
+    const h = j1 - j0 + 1;
+    if (w < 2 && h < 2) return;
+
+    const vertical = w > h || (w === h && rng.next() < 0.5);
+    if (vertical) {
+      // Wall between column c and c+1, with a single gap at row `gap`
+      const c = i0 + rng.nextInt(w - 1);
+      const gap = j0 + rng.nextInt(h);
+      for (let j = j0; j <= j1; j++) {
+        if (j !== gap) grid[2 * j + 1][2 * c + 2].isWall = true;
+      }
+      divide(i0, j0, c, j1);
+      divide(c + 1, j0, i1, j1);
+    } else {
+      const r = j0 + rng.nextInt(h - 1);
+      const gap = i0 + rng.nextInt(w);
+      for (let i = i0; i <= i1; i++) {
+        if (i !== gap) grid[2 * r + 2][2 * i + 1].isWall = true;
+      }
+      divide(i0, j0, i1, r);
+      divide(i0, r + 1, i1, j1);
+    }
+  };
+
+  divide(0, 0, cols - 1, rows - 1);
+};
+
+export const MAZE_STRATEGIES: Record<MazeAlgorithm, MazeStrategy> = {
+  dfs: carveRecursiveBacktracker,
+  prim: carvePrim,
+  kruskal: carveKruskal,
+  wilson: carveWilson,
+  eller: carveEller,
+  division: carveRecursiveDivision,
+};
+
+const isLinked = (grid: MazeCell[][], a: Node, b: Node) => !grid[a.j + b.j + 1][a.i + b.i + 1].isWall;
+
+const isDeadEnd = (grid: MazeCell[][], n: Node) =>
+  nodeNeighbors(grid, n).filter(m => isLinked(grid, n, m)).length === 1;
+
+// Removes roughly `ratio` of the dead ends by knocking out one extra wall at each, turning a perfect
+// maze into a braided one with several routes of different lengths. Links to another dead end are
+// preferred so one knockout can clear two dead ends at once.
+export const braidDeadEnds = (grid: MazeCell[][], rng: SeededRandom, ratio: number) => {
+  if (ratio <= 0) return;
+
+  const deadEnds = rng.shuffle(allNodes(grid).filter(n => isDeadEnd(grid, n)));
+  for (const node of deadEnds) {
+    if (rng.next() >= ratio || !isDeadEnd(grid, node)) continue;
+
+    const closed = nodeNeighbors(grid, node).filter(m => !isLinked(grid, node, m));
+    const deadEndNeighbors = closed.filter(m => isDeadEnd(grid, m));
+    const candidates = deadEndNeighbors.length > 0 ? deadEndNeighbors : closed;
+    if (candidates.length === 0) continue;
+    connect(grid, node, candidates[rng.nextInt(candidates.length)]);
+  }
+};
@@ -0,0 +1,168 @@
+import { describe, it, expect } from "vitest";
+import { PathSolver } from "./PathSolver";
+import { MazeGenerator } from "./MazeGenerator";
+import { Action, MazeCell } from "../types";
+
+const fromPattern = (rows: string[]): MazeCell[][] =>
+  rows.map((row, y) =>
+    row.split("").map((ch, x) => ({ x, y, isWall: ch === "#" }))
+  );
+
+// Two routes from top-left to bottom-right: a 4-step one down the left
+// and a longer detour around the right
+const twoRoutes = fromPattern([
+  "...",
+  ".#.",
+  "...",
+]);
+
+describe("PathSolver", () => {
+  describe("shortestPath", () => {
+    it("should return the shortest route and its length", () => {
+      const result = new PathSolver(twoRoutes).shortestPath(
+        { x: 0, y: 0 },
+        { x: 2, y: 2 }
+      );
+      expect(result?.distance).toBe(4);
+      expect(result?.path).toHaveLength(5);
+      expect(result?.path[0]).toEqual({ x: 0, y: 0 });
+      expect(result?.path[4]).toEqual({ x: 2, y: 2 });
+    });
+
+    it("should only move between adjacent open cells", () => {
+      const grid = new MazeGenerator(15, 15).generate();
+      const result = new PathSolver(grid).shortestPath(
+        { x: 0, y: 0 },
+        { x: 14, y: 14 }
+      )!;
+      result.path.forEach((pos, i) => {
+        expect(grid[pos.y][pos.x].isWall).toBe(false);
+        if (i > 0) {
+          const prev = result.path[i - 1];
+          expect(Math.abs(pos.x - prev.x) + Math.abs(pos.y - prev.y)).toBe(1);
+        }
+      });
+    });
+
+    it("should pick the shorter route in a braided maze", () => {
+      const grid = fromPattern([
+        ".....",
+        ".###.",
+        ".#...",
+        ".#.#.",
+        "...#.",
+      ]);
+      const result = new PathSolver(grid).shortestPath(
+        { x: 0, y: 0 },
+        { x: 4, y: 4 }
+      );
+      expect(result?.distance).toBe(8);
+    });
+
+    it("should return a zero-length path when start is the goal", () => {
+      const result = new PathSolver(twoRoutes).shortestPath(
+        { x: 1, y: 0 },
+        { x: 1, y: 0 }
+      );
+      expect(result).toEqual({ path: [{ x: 1, y: 0 }], distance: 0 });
+    });
+
+    it("should route around traps", () => {
+      const grid = fromPattern(["...", "...", "..."]);
+      grid[1][0].cellType = "trap";
+      grid[1][1].cellType = "trap";
+      const result = new PathSolver(grid).shortestPath(
+        { x: 0, y: 0 },
+        { x: 0, y: 2 }
+      );
+      expect(result?.distance).toBe(6);
+    });
+
+    it("should only cross one-way tiles along their arrow", () => {
+      const grid = fromPattern([".....", ".###.", "....."]);
+      grid[0][2].cellType = "one-way";
+      grid[0][2].direction = Action.LEFT;
+      const solver = new PathSolver(grid);
+      expect(solver.shortestPath({ x: 0, y: 0 }, { x: 4, y: 0 })?.distance).toBe(8);
+      expect(solver.shortestPath({ x: 4, y: 0 }, { x: 0, y: 0 })?.distance).toBe(4);
+    });
+
+    it("should jump between linked teleporters", () => {
+      const grid = fromPattern([".......", "#######", "......."]);
+      grid[0][1].cellType = "teleporter";
+      grid[0][1].link = 0;
+      grid[2][5].cellType = "teleporter";
+      grid[2][5].link = 0;
+      const result = new PathSolver(grid).shortestPath(
+        { x: 0, y: 0 },
+        { x: 6, y: 2 }
+      );
+      expect(result?.distance).toBe(2);
+      expect(result?.path).toEqual([
+        { x: 0, y: 0 },
+        { x: 5, y: 2 },
+        { x: 6, y: 2 },
+      ]);
+    });
+
+    it("should only be exact without doors, gates and patrols", () => {
+      const grid = fromPattern(["..."]);
+      expect(new PathSolver(grid).exact).toBe(true);
+      grid[0][1].cellType = "gate";
+      expect(new PathSolver(grid).exact).toBe(false);
+    });
+
+    it("should return null when the goal is unreachable", () => {
+      const grid = fromPattern(["..#.."]);
+      const solver = new PathSolver(grid);
+      expect(solver.shortestPath({ x: 0, y: 0 }, { x: 4, y: 0 })).toBeNull();
+      expect(solver.shortestPath({ x: 0, y: 0 }, { x: 2, y: 0 })).toBeNull();
+    });
+  });
+
+  describe("distanceField", () => {
+    it("should hold the step count to the goal for every reachable cell", () => {
+      const field = new PathSolver(twoRoutes).distanceField({ x: 2, y: 2 });
+      expect(field).toEqual([
+        [4, 3, 2],
+        [3, null, 1],
+        [2, 1, 0],
+      ]);
+    });
+
+    it("should agree with A* on generated mazes", () => {
+      const grid = new MazeGenerator(21, 21, { seed: 3, braid: 0.5 }).generate();
+      const solver = new PathSolver(grid);
+      const goal = { x: 20, y: 20 };
+      const field = solver.distanceField(goal);
+      [
+        { x: 0, y: 0 },
+        { x: 1, y: 5 },
+        { x: 9, y: 9 },
+      ].forEach((start) => {
+        if (grid[start.y][start.x].isWall) return;
+        expect(solver.shortestPath(start, goal)?.distance).toBe(
+          field[start.y][start.x]
+        );
+      });
+    });
+
+    it("should leave unreachable cells empty", () => {
+      const field = new PathSolver(fromPattern(["..#.."])).distanceField({
+        x: 0,
+        y: 0,
+      });
+      expect(field[0]).toEqual([0, 1, null, null, null]);
+    });
+
+    it("should count the moves towards the goal past one-way tiles", () => {
+      const grid = fromPattern(["...."]);
+      grid[0][1].cellType = "one-way";
+      grid[0][1].direction = Action.RIGHT;
+      const field = new PathSolver(grid).distanceField({ x: 3, y: 0 });
+      expect(field[0]).toEqual([3, 2, 1, 0]);
+      const back = new PathSolver(grid).distanceField({ x: 0, y: 0 });
+      expect(back[0]).toEqual([0, null, null, null]);
+    });
+  });
+});
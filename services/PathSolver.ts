@@ -0,0 +1,135 @@
+import { Action, MazeCell, Position } from '../types';
+import { againstOneWay, cellTypeOf, teleporterPartners } from './CellTypes';
+
+export type SolvedPath = {
+  // Cells stood on from start to goal inclusive; a teleport skips the tile it was entered through
+  path: Position[];
+  // Number of moves, i.e. path.length - 1
+  distance: number;
+};
+
+const DELTAS: [Action, Position][] = [
+  [Action.UP, { x: 0, y: -1 }],
+  [Action.RIGHT, { x: 1, y: 0 }],
+  [Action.DOWN, { x: 0, y: 1 }],
+  [Action.LEFT, { x: -1, y: 0 }],
+];
+
+// Ground-truth shortest paths over a maze grid, using the same moves as MazeEnvironment.step:
+// one-way tiles only let moves along their arrow on and off them, and entering a teleporter lands
+// on its partner. Traps and terminal extra goals count as walls since they end the episode.
+export class PathSolver {
+  private grid: MazeCell[][];
+  private teleports: Map<string, Position>;
+  // False when doors, gates or patrols are present: whether they block depends on the keys held
+  // or on the step, which the solver does not track, so its distances are only a guess there
+  public readonly exact: boolean;
+
+  constructor(grid: MazeCell[][]) {
+    this.grid = grid;
+    this.teleports = teleporterPartners(grid);
+    this.exact = !grid.flat().some(cell => ['door', 'gate', 'patrol'].includes(cellTypeOf(cell)));
+  }
+
+  private isOpen(x: number, y: number): boolean {
+    const cell = this.grid[y]?.[x];
+    if (cell === undefined || cell.isWall) return false;
+    return cell.cellType !== 'trap' && cell.cellType !== 'door' && !(cell.cellType === 'extra-goal' && cell.terminal !== false);
+  }
+
+  // Cells one move away from pos, after any teleport
+  private neighbors(pos: Position): Position[] {
+    const from = this.grid[pos.y]?.[pos.x];
+    const next: Position[] = [];
+    for (const [action, d] of DELTAS) {
+      const n = { x: pos.x + d.x, y: pos.y + d.y };
+      if (!this.isOpen(n.x, n.y)) continue;
+      if (againstOneWay(from, action) || againstOneWay(this.grid[n.y][n.x], action)) continue;
+      next.push(this.teleports.get(`${n.x},${n.y}`) ?? n);
+    }
+    return next;
+  }
+
+  // Moves can be one-way, so the field walks them backwards from the goal
+  private predecessors(): Map<string, Position[]> {
+    const preds = new Map<string, Position[]>();
+    this.grid.flat().forEach(cell => {
+      if (!this.isOpen(cell.x, cell.y)) return;
+      this.neighbors(cell).forEach(n => {
+        const key = `${n.x},${n.y}`;
+        if (!preds.has(key)) preds.set(key, []);
+        preds.get(key)!.push({ x: cell.x, y: cell.y });
+      });
+    });
+    return preds;
+  }
+
+  // BFS from the goal: steps needed to reach it from every cell, null for walls and unreachable cells
+  public distanceField(goal: Position): (number | null)[][] {
+    const field: (number | null)[][] = this.grid.map(row => row.map(() => null));
+    if (!this.isOpen(goal.x, goal.y)) return field;
+
+    const preds = this.predecessors();
+    field[goal.y][goal.x] = 0;
+    const queue: Position[] = [goal];
+    for (let head = 0; head < queue.length; head++) {
+      const pos = queue[head];
+      const dist = field[pos.y][pos.x]! + 1;
+      for (const n of preds.get(`${pos.x},${pos.y}`) ?? []) {
+        if (field[n.y][n.x] === null) {
+          field[n.y][n.x] = dist;
+          queue.push(n);
+        }
+      }
+    }
+    return field;
+  }
+
+  // A* with the Manhattan heuristic; returns null when the goal cannot be reached.
+  // A teleporter can beat the Manhattan distance, so with any linked pair it falls back to plain Dijkstra
+  public shortestPath(start: Position, goal: Position): SolvedPath | null {
+    if (!this.isOpen(start.x, start.y) || !this.isOpen(goal.x, goal.y)) return null;
+
+    const key = (p: Position) => `${p.x},${p.y}`;
+    const heuristic = (p: Position) =>
+      this.teleports.size > 0 ? 0 : Math.abs(p.x - goal.x) + Math.abs(p.y - goal.y);
+
+    const cost = new Map<string, number>([[key(start), 0]]);
+    const cameFrom = new Map<string, Position>();
+    const closed = new Set<string>();
+    const open: { pos: Position; f: number }[] = [{ pos: start, f: heuristic(start) }];
+
+    while (open.length > 0) {
+      // Mazes are small enough that a linear scan beats maintaining a heap
+      let best = 0;
+      for (let i = 1; i < open.length; i++) {
+        if (open[i].f < open[best].f) best = i;
+      }
+      const { pos } = open.splice(best, 1)[0];
+      const posKey = key(pos);
+      if (closed.has(posKey)) continue;
+      closed.add(posKey);
+
+      if (pos.x === goal.x && pos.y === goal.y) {
+        const path: Position[] = [pos];
+        let current = cameFrom.get(posKey);
+        while (current) {
+          path.unshift(current);
+          current = cameFrom.get(key(current));
+        }
+        return { path, distance: path.length - 1 };
+      }
+
+      const nextCost = cost.get(posKey)! + 1;
+      for (const n of this.neighbors(pos)) {
+        const nKey = key(n);
+        if (closed.has(nKey) || nextCost >= (cost.get(nKey) ?? Infinity)) continue;
+        cost.set(nKey, nextCost);
+        cameFrom.set(nKey, pos);
+        open.push({ pos: n, f: nextCost + heuristic(n) });
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { greedyChoice } from "./Policy";
+import { Action } from "../types";
+
+describe("greedyChoice", () => {
+  it("should pick the single best action and its margin", () => {
+    expect(greedyChoice([1, 5, 2, -3])).toEqual({
+      actions: [Action.RIGHT],
+      margin: 3,
+    });
+  });
+
+  it("should report every tied action with zero margin", () => {
+    expect(greedyChoice([4, 1, 4, 0])).toEqual({
+      actions: [Action.UP, Action.DOWN],
+      margin: 0,
+    });
+  });
+
+  it("should treat an untouched state as a four-way tie", () => {
+    expect(greedyChoice([0, 0, 0, 0]).actions).toHaveLength(4);
+  });
+
+  it("should handle negative values", () => {
+    expect(greedyChoice([-10, -2, -7, -2.5])).toEqual({
+      actions: [Action.RIGHT],
+      margin: 0.5,
+    });
+  });
+});
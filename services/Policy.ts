@@ -0,0 +1,19 @@
+import { Action } from '../types';
+
+export type GreedyChoice = {
+  // Every action sharing the top Q-value; more than one means the agent breaks the tie at random
+  actions: Action[];
+  // Gap between the best and the runner-up value, 0 for ties
+  margin: number;
+};
+
+// Reads the greedy decision out of one state's action values
+export const greedyChoice = (qValues: number[]): GreedyChoice => {
+  const maxQ = Math.max(...qValues);
+  const actions = qValues
+    .map((q, a) => (q === maxQ ? (a as Action) : null))
+    .filter((a): a is Action => a !== null);
+  const rest = qValues.filter(q => q !== maxQ);
+  const margin = actions.length > 1 || rest.length === 0 ? 0 : maxQ - Math.max(...rest);
+  return { actions, margin };
+};
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { QLambdaAgent } from "./QLambdaAgent";
+import { Action, Position } from "../types";
+
+describe("QLambdaAgent", () => {
+  let agent: QLambdaAgent;
+  const start: Position = { x: 0, y: 0 };
+  const middle: Position = { x: 1, y: 0 };
+  const goal: Position = { x: 2, y: 0 };
+
+  beforeEach(() => {
+    agent = new QLambdaAgent(0.1, 0.9, 0.1, 1);
+    agent.setTraceParameters(0.8, "replacing");
+  });
+
+  it("should report its algorithm", () => {
+    expect(agent.algorithm).toBe("q-lambda");
+  });
+
+  describe("update", () => {
+    it("should pass the goal reward back to earlier steps", () => {
+      agent.update(start, Action.RIGHT, 0, middle, false, Action.RIGHT);
+      agent.update(middle, Action.RIGHT, 10, goal, true);
+
+      expect(agent.getQValues(middle)[Action.RIGHT]).toBeCloseTo(1);
+      // The first step's trace has faded by γλ = 0.72
+      expect(agent.getQValues(start)[Action.RIGHT]).toBeCloseTo(0.72);
+    });
+
+    it("should cut the traces after an exploratory next action", () => {
+      agent.qTable["1,0"] = [5, 0, 0, 0];
+
+      agent.update(start, Action.RIGHT, 0, middle, false, Action.RIGHT);
+      expect(agent.traces).toEqual({});
+      expect(agent.getQValues(start)[Action.RIGHT]).toBeCloseTo(0.45);
+
+      agent.update(middle, Action.RIGHT, 10, goal, true);
+      expect(agent.getQValues(start)[Action.RIGHT]).toBeCloseTo(0.45);
+    });
+
+    it("should keep traces through greedy ties", () => {
+      agent.update(start, Action.RIGHT, 0, middle, false, Action.DOWN);
+      expect(agent.traces["0,0"][Action.RIGHT]).toBeCloseTo(0.72);
+    });
+
+    it("should add up accumulating traces on revisits", () => {
+      agent.setTraceParameters(0.8, "accumulating");
+      agent.update(start, Action.RIGHT, 0, start, false, Action.RIGHT);
+      agent.update(start, Action.RIGHT, 0, start, false, Action.RIGHT);
+
+      expect(agent.traces["0,0"][Action.RIGHT]).toBeCloseTo(1.72 * 0.72);
+    });
+
+    it("should reset replacing traces to 1 and clear the cell's other actions", () => {
+      agent.update(start, Action.UP, 0, start, false, Action.RIGHT);
+      agent.update(start, Action.RIGHT, 0, start, false, Action.RIGHT);
+
+      const [up, right, down, left] = agent.traces["0,0"];
+      expect([up, down, left]).toEqual([0, 0, 0]);
+      expect(right).toBeCloseTo(0.72);
+    });
+
+    it("should behave like one-step Q-learning with λ = 0", () => {
+      agent.setTraceParameters(0, "accumulating");
+      agent.update(start, Action.RIGHT, 0, middle, false, Action.RIGHT);
+      agent.update(middle, Action.RIGHT, 10, goal, true);
+
+      expect(agent.getQValues(start)[Action.RIGHT]).toBe(0);
+      expect(agent.getQValues(middle)[Action.RIGHT]).toBeCloseTo(1);
+    });
+  });
+
+  describe("traces", () => {
+    it("should report the largest trace per cell", () => {
+      agent.update(start, Action.RIGHT, 0, middle, false, Action.RIGHT);
+      agent.update(middle, Action.RIGHT, 0, goal, false, Action.RIGHT);
+
+      const magnitudes = agent.getTraceMagnitudes();
+      expect(magnitudes["1,0"]).toBeCloseTo(0.72);
+      expect(magnitudes["0,0"]).toBeCloseTo(0.72 * 0.72);
+    });
+
+    it("should drop the traces when an episode ends without reaching the goal", () => {
+      agent.update(start, Action.RIGHT, 0, middle, false, Action.RIGHT);
+      agent.decay();
+      expect(agent.traces).toEqual({});
+    });
+
+    it("should round-trip λ and the trace kind", () => {
+      agent.setTraceParameters(0.5, "accumulating");
+      const restored = new QLambdaAgent(0.1, 0.9, 0.1);
+      restored.restore(agent.serialize());
+
+      expect(restored.lambda).toBe(0.5);
+      expect(restored.traceKind).toBe("accumulating");
+    });
+  });
+});
@@ -0,0 +1,24 @@
+import { Action, Position } from '../types';
+import { EligibilityTraceAgent } from './EligibilityTraceAgent';
+
+// Watkins's Q(λ): traces only follow greedy behaviour, so an exploratory next action cuts them
+export class QLambdaAgent extends EligibilityTraceAgent {
+  public readonly algorithm = 'q-lambda' as const;
+  protected readonly usesNextAction = true;
+
+  public update(
+    state: Position,
+    action: Action,
+    reward: number,
+    nextState: Position,
+    done: boolean = false,
+    nextAction?: Action
+  ): void {
+    const maxNextQ = done ? 0 : this.getMaxQ(nextState);
+    const exploratory =
+      !done && nextAction !== undefined && this.getQValues(nextState)[nextAction] < maxNextQ;
+
+    // δ = Reward + gamma * max(Q(s',a')) - Q(s,a), shared along the trace
+    this.propagate(state, action, reward + this.gamma * maxNextQ, done || exploratory);
+  }
+}
@@ -58,6 +58,12 @@ describe("QLearningAgent", () => {
       expect(qValues).toEqual([0, 0, 0, 0]);
     });
 
+    it("should start unseen states at the optimistic initial value", () => {
+      agent.setExploration({ ...agent.exploration, initialQ: 50 });
+
+      expect(agent.getQValues({ x: 9, y: 9 })).toEqual([50, 50, 50, 50]);
+    });
+
     it("should store initialized Q-values in qTable", () => {
       const pos: Position = { x: 7, y: 8 };
       agent.getQValues(pos);
@@ -65,6 +71,20 @@ describe("QLearningAgent", () => {
       expect(agent.qTable["7,8"]).toEqual([0, 0, 0, 0]);
     });
 
+    it("should keep a separate entry for each set of held keys", () => {
+      agent.qTable["1,2"] = [1, 1, 1, 1];
+
+      expect(agent.getQValues({ x: 1, y: 2, keys: 3 })).toEqual([0, 0, 0, 0]);
+      expect(agent.qTable["1,2|3"]).toEqual([0, 0, 0, 0]);
+    });
+
+    it("should share one entry between cells with the same observation", () => {
+      agent.getQValues({ x: 1, y: 2, obs: "0101:N" })[0] = 5;
+
+      expect(agent.getQValues({ x: 4, y: 7, obs: "0101:N" })[0]).toBe(5);
+      expect(agent.qTable["1,2"]).toBeUndefined();
+    });
+
     it("should return array with 4 elements (one per action)", () => {
       const qValues = agent.getQValues(testPosition);
       expect(qValues).toHaveLength(4);
@@ -125,6 +145,25 @@ describe("QLearningAgent", () => {
       expect([Action.UP, Action.RIGHT]).toContain(action);
     });
 
+    it("should draw the same actions from the same seed", () => {
+      const draw = (seed: number) => {
+        const seeded = new QLearningAgent(0.1, 0.9, 0.5, seed);
+        return Array.from({ length: 50 }, () => seeded.chooseAction(testPosition));
+      };
+
+      expect(draw(123)).toEqual(draw(123));
+      expect(draw(123)).not.toEqual(draw(124));
+    });
+
+    it("should restart its random sequence when the Q-table is reset", () => {
+      const seeded = new QLearningAgent(0.1, 0.9, 1, 9);
+      const first = Array.from({ length: 20 }, () => seeded.chooseAction(testPosition));
+
+      seeded.resetQTable();
+
+      expect(Array.from({ length: 20 }, () => seeded.chooseAction(testPosition))).toEqual(first);
+    });
+
     it("should explore all actions with epsilon = 1", () => {
       agent.epsilon = 1;
       const actions = new Set<Action>();
@@ -216,6 +255,34 @@ describe("QLearningAgent", () => {
 
       expect(secondUpdate).toBeGreaterThan(firstUpdate);
     });
+
+    it("should count updates and keep the latest TD error per state", () => {
+      agent.update(testPosition, Action.RIGHT, 10, nextPosition, true);
+      agent.update(testPosition, Action.RIGHT, 10, nextPosition, true);
+
+      expect(agent.actionCounts["5,5"]).toEqual([0, 2, 0, 0]);
+
+      expect(agent.visitCounts["5,5"]).toBe(2);
+      // Q went 0 -> 1 after the first update, so the second error is 10 - 1
+      expect(agent.lastTdErrors["5,5"]).toBeCloseTo(9);
+      expect(agent.visitCounts["6,5"]).toBeUndefined();
+    });
+  });
+
+  describe("learnAndChoose", () => {
+    it("should update before choosing, so a wall bump steers the next action", () => {
+      const bumpAgent = new QLearningAgent(1, 0.9, 0);
+      bumpAgent.qTable["5,5"] = [1, 0.5, 0, 0];
+
+      // Bumping stays in (5,5): Q(s,UP) becomes -10 + 0.9 * 1 = -9.1 before a' is picked
+      const next = bumpAgent.learnAndChoose(testPosition, Action.UP, -10, testPosition, false);
+
+      expect(next).toBe(Action.RIGHT);
+    });
+
+    it("should return no action once the episode is done", () => {
+      expect(agent.learnAndChoose(testPosition, Action.UP, 10, nextPosition, true)).toBeUndefined();
+    });
   });
 
   describe("decayCuriosity", () => {
@@ -249,6 +316,46 @@ describe("QLearningAgent", () => {
       expect(agent.epsilon).toBe(agent.minEpsilon);
     });
 
+    it("should decay α along its schedule and restore it on reset", () => {
+      agent.setSchedules(agent.epsilonSchedule, {
+        kind: "inverse-time",
+        floor: 0,
+        rate: 1,
+        duration: 100,
+        interval: 10,
+      });
+
+      agent.decay();
+      expect(agent.alpha).toBeCloseTo(0.05);
+      agent.decay();
+      expect(agent.alpha).toBeCloseTo(0.1 / 3);
+
+      agent.resetQTable();
+      expect(agent.alpha).toBe(0.1);
+      expect(agent.episodesDecayed).toBe(0);
+    });
+
+    it("should keep α fixed by default", () => {
+      agent.decay();
+      agent.decay();
+      expect(agent.alpha).toBe(0.1);
+    });
+
+    it("should cool the Boltzmann temperature down to its floor", () => {
+      agent.setExploration({
+        ...agent.exploration,
+        strategy: "boltzmann",
+        temperature: 1,
+        minTemperature: 0.4,
+        temperatureDecay: 0.5,
+      });
+
+      agent.decay();
+      expect(agent.temperature).toBeCloseTo(0.5);
+      agent.decay();
+      expect(agent.temperature).toBeCloseTo(0.4);
+    });
+
     it("should maintain minEpsilon when already at minimum", () => {
       agent.epsilon = 0.01;
       agent.minEpsilon = 0.01;
@@ -272,6 +379,15 @@ describe("QLearningAgent", () => {
       expect(Object.keys(agent.qTable).length).toBe(0);
     });
 
+    it("should clear the per-state diagnostics", () => {
+      agent.update(testPosition, Action.UP, -1, nextPosition);
+
+      agent.resetQTable();
+
+      expect(agent.visitCounts).toEqual({});
+      expect(agent.lastTdErrors).toEqual({});
+    });
+
     it("should reset epsilon to initialEpsilon", () => {
       agent.initialEpsilon = 0.8;
       agent.epsilon = 0.05;
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SarsaAgent } from "./SarsaAgent";
+import { Action, Position } from "../types";
+
+describe("SarsaAgent", () => {
+  let agent: SarsaAgent;
+  const state: Position = { x: 1, y: 1 };
+  const nextState: Position = { x: 2, y: 1 };
+
+  beforeEach(() => {
+    agent = new SarsaAgent(0.1, 0.9, 0.1);
+  });
+
+  it("should report its algorithm", () => {
+    expect(agent.algorithm).toBe("sarsa");
+  });
+
+  describe("update", () => {
+    it("should bootstrap from the next action actually taken", () => {
+      agent.qTable["2,1"] = [20, 10, 0, 0];
+
+      agent.update(state, Action.RIGHT, 0, nextState, false, Action.RIGHT);
+
+      // newQ = 0 + 0.1 * (0 + 0.9 * 10 - 0) = 0.9, not the max of 20
+      expect(agent.getQValues(state)[Action.RIGHT]).toBeCloseTo(0.9);
+    });
+
+    it("should fall back to the greedy value without a next action", () => {
+      agent.qTable["2,1"] = [20, 10, 0, 0];
+
+      agent.update(state, Action.RIGHT, 0, nextState);
+
+      expect(agent.getQValues(state)[Action.RIGHT]).toBeCloseTo(1.8);
+    });
+
+    it("should not bootstrap from a terminal state", () => {
+      agent.qTable["2,1"] = [20, 10, 0, 0];
+
+      agent.update(state, Action.RIGHT, 10, nextState, true, Action.UP);
+
+      expect(agent.getQValues(state)[Action.RIGHT]).toBeCloseTo(1.0);
+    });
+  });
+
+  describe("learnAndChoose", () => {
+    it("should pick the next action before updating and bootstrap from it", () => {
+      const bumpAgent = new SarsaAgent(1, 0.9, 0);
+      bumpAgent.qTable["1,1"] = [1, 0.5, 0, 0];
+
+      const next = bumpAgent.learnAndChoose(state, Action.UP, -10, state, false);
+
+      expect(next).toBe(Action.UP);
+      expect(bumpAgent.getQValues(state)[Action.UP]).toBeCloseTo(-9.1);
+    });
+  });
+
+  describe("serialize", () => {
+    it("should include the algorithm and learning parameters", () => {
+      agent.qTable["1,1"] = [1, 2, 3, 4];
+      const data = agent.serialize();
+
+      expect(data.algorithm).toBe("sarsa");
+      expect(data.alpha).toBe(0.1);
+      expect(data.gamma).toBe(0.9);
+      expect(data.epsilon).toBe(0.1);
+      expect(data.qTable["1,1"]).toEqual([1, 2, 3, 4]);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { Action, Position } from '../types';
+import { TabularAgent } from './TabularAgent';
+
+export class SarsaAgent extends TabularAgent {
+  public readonly algorithm = 'sarsa' as const;
+  protected readonly usesNextAction = true;
+
+  public update(
+    state: Position,
+    action: Action,
+    reward: number,
+    nextState: Position,
+    done: boolean = false,
+    nextAction?: Action
+  ): void {
+    let nextQ = 0;
+    if (!done) {
+      // On-policy: bootstrap from the action that will actually be taken. Without one, fall back to the greedy value.
+      nextQ = nextAction === undefined
+        ? this.getMaxQ(nextState)
+        : this.getQValues(nextState)[nextAction];
+    }
+
+    // SARSA: Q(s,a) = Q(s,a) + alpha * [Reward + gamma * Q(s',a') - Q(s,a)]
+    this.applyTarget(state, action, reward + this.gamma * nextQ);
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { SarsaLambdaAgent } from "./SarsaLambdaAgent";
+import { Action, Position } from "../types";
+
+describe("SarsaLambdaAgent", () => {
+  let agent: SarsaLambdaAgent;
+  const start: Position = { x: 0, y: 0 };
+  const middle: Position = { x: 1, y: 0 };
+  const goal: Position = { x: 2, y: 0 };
+
+  beforeEach(() => {
+    agent = new SarsaLambdaAgent(0.1, 0.9, 0.1, 1);
+    agent.setTraceParameters(0.8, "replacing");
+  });
+
+  it("should report its algorithm", () => {
+    expect(agent.algorithm).toBe("sarsa-lambda");
+  });
+
+  describe("update", () => {
+    it("should keep crediting the path after an exploratory action", () => {
+      agent.qTable["1,0"] = [5, 0, 0, 0];
+
+      // Bootstraps from Q(s', RIGHT) = 0, the action it will really take
+      agent.update(start, Action.RIGHT, 0, middle, false, Action.RIGHT);
+      agent.update(middle, Action.RIGHT, 10, goal, true);
+
+      expect(agent.getQValues(middle)[Action.RIGHT]).toBeCloseTo(1);
+      expect(agent.getQValues(start)[Action.RIGHT]).toBeCloseTo(0.72);
+    });
+
+    it("should clear the traces when the goal is reached", () => {
+      agent.update(start, Action.RIGHT, 0, middle, false, Action.RIGHT);
+      agent.update(middle, Action.RIGHT, 10, goal, true);
+
+      expect(agent.traces).toEqual({});
+    });
+
+    it("should forget traces on reset", () => {
+      agent.update(start, Action.RIGHT, 0, middle, false, Action.RIGHT);
+      agent.resetQTable();
+
+      expect(agent.traces).toEqual({});
+      expect(agent.getTraceMagnitudes()).toEqual({});
+    });
+  });
+});
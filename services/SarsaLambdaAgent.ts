@@ -0,0 +1,26 @@
+import { Action, Position } from '../types';
+import { EligibilityTraceAgent } from './EligibilityTraceAgent';
+
+export class SarsaLambdaAgent extends EligibilityTraceAgent {
+  public readonly algorithm = 'sarsa-lambda' as const;
+  protected readonly usesNextAction = true;
+
+  public update(
+    state: Position,
+    action: Action,
+    reward: number,
+    nextState: Position,
+    done: boolean = false,
+    nextAction?: Action
+  ): void {
+    let nextQ = 0;
+    if (!done) {
+      nextQ = nextAction === undefined
+        ? this.getMaxQ(nextState)
+        : this.getQValues(nextState)[nextAction];
+    }
+
+    // δ = Reward + gamma * Q(s',a') - Q(s,a), shared along the trace
+    this.propagate(state, action, reward + this.gamma * nextQ, done);
+  }
+}
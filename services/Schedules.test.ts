@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  SCHEDULES,
+  SCHEDULE_KINDS,
+  DEFAULT_EPSILON_SCHEDULE,
+  scheduleCurve,
+  withScheduleKind,
+} from "./Schedules";
+import { ScheduleConfig } from "../types";
+
+const config = (overrides: Partial<ScheduleConfig>): ScheduleConfig => ({
+  ...DEFAULT_EPSILON_SCHEDULE,
+  ...overrides,
+});
+
+describe("Schedules", () => {
+  it("should list every schedule in the picker", () => {
+    expect(SCHEDULE_KINDS.map((k) => k.id).sort()).toEqual(
+      Object.keys(SCHEDULES).sort()
+    );
+  });
+
+  it("should start every curve at the initial value", () => {
+    SCHEDULE_KINDS.forEach(({ id }) => {
+      expect(scheduleCurve(config({ kind: id }), 0.8, 5)[0]).toBe(0.8);
+    });
+  });
+
+  it("should never drop below the floor", () => {
+    SCHEDULE_KINDS.forEach(({ id }) => {
+      const curve = scheduleCurve(
+        config({ kind: id, floor: 0.1, rate: 0.5, duration: 10, interval: 2 }),
+        1,
+        200
+      );
+      curve.forEach((v) => expect(v).toBeGreaterThanOrEqual(0.1));
+    });
+  });
+
+  it("should keep a constant schedule flat", () => {
+    expect(scheduleCurve(config({ kind: "constant" }), 0.3, 3)).toEqual([
+      0.3, 0.3, 0.3, 0.3,
+    ]);
+  });
+
+  it("should multiply by the rate every episode for exponential", () => {
+    const curve = scheduleCurve(config({ kind: "exponential", rate: 0.5, floor: 0 }), 1, 3);
+    expect(curve).toEqual([1, 0.5, 0.25, 0.125]);
+  });
+
+  it("should reach the floor after the given episodes for linear", () => {
+    const curve = scheduleCurve(config({ kind: "linear", duration: 4, floor: 0.2 }), 1, 6);
+    expect(curve[2]).toBeCloseTo(0.6);
+    expect(curve[4]).toBeCloseTo(0.2);
+    expect(curve[6]).toBeCloseTo(0.2);
+  });
+
+  it("should only drop at each interval for step", () => {
+    const curve = scheduleCurve(
+      config({ kind: "step", rate: 0.5, interval: 3, floor: 0 }),
+      1,
+      6
+    );
+    expect(curve).toEqual([1, 1, 1, 0.5, 0.5, 0.5, 0.25]);
+  });
+
+  it("should follow start / (1 + k·t) for inverse time", () => {
+    const curve = scheduleCurve(
+      config({ kind: "inverse-time", rate: 1, floor: 0 }),
+      0.6,
+      3
+    );
+    expect(curve[1]).toBeCloseTo(0.3);
+    expect(curve[2]).toBeCloseTo(0.2);
+    expect(curve[3]).toBeCloseTo(0.15);
+  });
+
+  it("should reset the rate to the new kind's default when the kind changes", () => {
+    const alpha = config({ kind: "constant", rate: 0.01 });
+    expect(withScheduleKind(alpha, "exponential").rate).toBe(0.995);
+    expect(withScheduleKind(alpha, "step").rate).toBe(0.5);
+    expect(withScheduleKind(config({ rate: 0.9 }), "inverse-time").rate).toBe(0.01);
+    expect(withScheduleKind(alpha, "step")).toMatchObject({ kind: "step", floor: alpha.floor, interval: alpha.interval });
+  });
+});
@@ -0,0 +1,64 @@
+import { ScheduleConfig, ScheduleKind } from '../types';
+
+// A schedule moves a parameter (ε or α) forward by one finished episode.
+// `episode` counts finished episodes including this one, so it starts at 1.
+export type Schedule = (config: ScheduleConfig, current: number, initial: number, episode: number) => number;
+
+export const SCHEDULE_KINDS: { id: ScheduleKind; label: string; description: string }[] = [
+  { id: 'constant', label: 'Constant', description: 'Never changes.' },
+  { id: 'exponential', label: 'Exponential', description: 'Multiplied by the rate after every episode.' },
+  { id: 'linear', label: 'Linear', description: 'Falls in a straight line to the floor over the given episodes.' },
+  { id: 'step', label: 'Step', description: 'Multiplied by the rate once every interval episodes.' },
+  { id: 'inverse-time', label: 'Inverse Time', description: 'Start / (1 + rate · episode); with floor 0 this meets the Robbins-Monro conditions.' },
+];
+
+export const DEFAULT_EPSILON_SCHEDULE: ScheduleConfig = {
+  kind: 'exponential',
+  floor: 0.01,
+  rate: 0.995,
+  duration: 500,
+  interval: 100,
+};
+
+export const DEFAULT_ALPHA_SCHEDULE: ScheduleConfig = {
+  kind: 'constant',
+  floor: 0.01,
+  rate: 0.01,
+  duration: 500,
+  interval: 100,
+};
+
+// The rate means something different to each kind, so it is not carried across a kind change
+const DEFAULT_RATES: Record<ScheduleKind, number> = {
+  constant: 0.995,
+  exponential: 0.995,
+  linear: 0.995,
+  step: 0.5,
+  'inverse-time': 0.01,
+};
+
+export const withScheduleKind = (config: ScheduleConfig, kind: ScheduleKind): ScheduleConfig =>
+  ({ ...config, kind, rate: DEFAULT_RATES[kind] });
+
+export const SCHEDULES: Record<ScheduleKind, Schedule> = {
+  constant: (_config, current) => current,
+  exponential: ({ floor, rate }, current) => Math.max(floor, current * rate),
+  linear: ({ floor, duration }, current, initial) =>
+    Math.max(floor, current - (initial - floor) / Math.max(1, duration)),
+  step: ({ floor, rate, interval }, current, _initial, episode) =>
+    episode % Math.max(1, Math.round(interval)) === 0 ? Math.max(floor, current * rate) : current,
+  'inverse-time': ({ floor, rate }, _current, initial, episode) =>
+    Math.max(floor, initial / (1 + rate * episode)),
+};
+
+export const advanceSchedule = (config: ScheduleConfig, current: number, initial: number, episode: number): number =>
+  SCHEDULES[config.kind](config, current, initial, episode);
+
+// Values at episodes 0..episodes, for the sidebar preview
+export const scheduleCurve = (config: ScheduleConfig, initial: number, episodes: number): number[] => {
+  const values = [initial];
+  for (let episode = 1; episode <= episodes; episode++) {
+    values.push(advanceSchedule(config, values[episode - 1], initial, episode));
+  }
+  return values;
+};
@@ -0,0 +1,38 @@
+// The LCG's modulus: it only has this many states, so larger seeds would replay a smaller seed's stream
+export const SEED_RANGE = 233280;
+
+// Fresh seed for callers that want a random but still replayable run
+export const randomSeed = () => Math.floor(Math.random() * SEED_RANGE);
+
+// Seed typed into an input, kept inside the range so no two seeds share a stream
+export const parseSeed = (text: string): number => Math.min(SEED_RANGE - 1, Math.abs(parseInt(text) || 0));
+
+// Simple deterministic random number generator to ensure the "Static" maze requirement
+export class SeededRandom {
+  private seed: number;
+  // Only the residue matters for the LCG; normalising keeps negative or fractional seeds in range
+  constructor(seed: number) { this.seed = ((Math.floor(seed) % SEED_RANGE) + SEED_RANGE) % SEED_RANGE; }
+  next() {
+    this.seed = (this.seed * 9301 + 49297) % SEED_RANGE;
+    return this.seed / SEED_RANGE;
+  }
+
+  // Current position in the sequence; new SeededRandom(getState()) continues where this one is
+  getState(): number {
+    return this.seed;
+  }
+
+  // Uniform integer in [0, max)
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  // In-place Fisher-Yates shuffle
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.nextInt(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+}
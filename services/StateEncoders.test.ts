@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_OBSERVATION,
+  ENCODERS,
+  cellStateKey,
+  compassTo,
+  gridBlocked,
+  localView,
+} from "./StateEncoders";
+import { MazeCell, ObservationConfig } from "../types";
+
+// A straight corridor along the middle row of a 5x3 grid
+const corridor = (): MazeCell[][] =>
+  Array.from({ length: 3 }, (_, y) =>
+    Array.from({ length: 5 }, (_, x) => ({ x, y, isWall: y !== 1 }))
+  );
+
+const local: ObservationConfig = { ...DEFAULT_OBSERVATION, encoder: "local" };
+
+describe("StateEncoders", () => {
+  it("should point the compass at the goal by the signs of the offset", () => {
+    expect(compassTo({ x: 2, y: 2 }, { x: 4, y: 0 })).toBe("NE");
+    expect(compassTo({ x: 2, y: 2 }, { x: 2, y: 5 })).toBe("S");
+    expect(compassTo({ x: 2, y: 2 }, { x: 2, y: 2 })).toBe("*");
+  });
+
+  it("should read eight neighbours clockwise from north", () => {
+    const view = localView(
+      gridBlocked(corridor()),
+      { x: 0, y: 1 },
+      { x: 4, y: 1 },
+      { ...local, neighbours: 8, compass: false }
+    );
+
+    // Only east is open; the diagonals and the outside count as blocked
+    expect(view).toBe("11011111");
+  });
+
+  it("should give look-alike cells the same key under the local view", () => {
+    const blocked = gridBlocked(corridor());
+    const goal = { x: 4, y: 1 };
+
+    expect(cellStateKey(blocked, { x: 1, y: 1 }, goal, local)).toBe(
+      cellStateKey(blocked, { x: 2, y: 1 }, goal, local)
+    );
+    expect(cellStateKey(blocked, { x: 1, y: 1 }, goal, DEFAULT_OBSERVATION)).toBe("1,1");
+    expect(cellStateKey(blocked, { x: 1, y: 1 }, goal, { ...local, encoder: "history" })).toBeNull();
+  });
+
+  it("should keep only the configured number of views in the history", () => {
+    const config = { ...local, encoder: "history" as const, historyLength: 2 };
+
+    expect(ENCODERS.history(() => "c", ["a", "b"], config)).toBe("b c");
+    expect(ENCODERS.history(() => "c", ["a", "b"], { ...config, historyLength: 1 })).toBe("c");
+  });
+
+  it("should treat locked doors and closed gates as walls", () => {
+    const grid = corridor();
+    grid[1][1] = { ...grid[1][1], cellType: "door", link: 0 };
+    grid[1][2] = { ...grid[1][2], cellType: "gate", period: 2 };
+
+    expect(gridBlocked(grid)(1, 1)).toBe(true);
+    expect(gridBlocked(grid, 1)(1, 1)).toBe(false);
+    expect(gridBlocked(grid, 0, 2)(2, 1)).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+import { EncoderKind, MazeCell, ObservationConfig, Position } from '../types';
+import { isGateOpen } from './CellTypes';
+
+export const STATE_ENCODERS: { id: EncoderKind; label: string; description: string }[] = [
+  { id: 'position', label: 'Full Position', description: 'The agent knows its exact cell, like having the map.' },
+  { id: 'local', label: 'Local View', description: 'Only the walls next to the agent, plus an optional goal compass. Different cells that look alike share one state.' },
+  { id: 'history', label: 'View History', description: 'The last few local views strung together, so a short memory can tell look-alike cells apart.' },
+];
+
+export const DEFAULT_OBSERVATION: ObservationConfig = {
+  encoder: 'position',
+  neighbours: 4,
+  compass: true,
+  historyLength: 3,
+};
+
+// Clockwise from straight up, so the first four are the moves in Action order
+export const NEIGHBOUR_OFFSETS: Position[] = [
+  { x: 0, y: -1 },
+  { x: 1, y: -1 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+  { x: -1, y: 1 },
+  { x: -1, y: 0 },
+  { x: -1, y: -1 },
+];
+
+export const viewOffsets = (neighbours: 4 | 8): Position[] =>
+  neighbours === 8 ? NEIGHBOUR_OFFSETS : NEIGHBOUR_OFFSETS.filter((_, i) => i % 2 === 0);
+
+// Eight-way direction to the goal by the signs of the offset, '*' on the goal itself
+export const compassTo = (pos: Position, goal: Position): string => {
+  const ns = goal.y < pos.y ? 'N' : goal.y > pos.y ? 'S' : '';
+  const ew = goal.x > pos.x ? 'E' : goal.x < pos.x ? 'W' : '';
+  return ns + ew || '*';
+};
+
+// One digit per neighbour, 1 where it is blocked, then the compass: "0101:NE"
+export const localView = (
+  isBlocked: (x: number, y: number) => boolean,
+  pos: Position,
+  goal: Position,
+  config: ObservationConfig
+): string => {
+  const walls = viewOffsets(config.neighbours)
+    .map(d => (isBlocked(pos.x + d.x, pos.y + d.y) ? '1' : '0'))
+    .join('');
+  return config.compass ? `${walls}:${compassTo(pos, goal)}` : walls;
+};
+
+// Builds the observation from the current local view and the earlier ones, oldest first.
+// Undefined keeps the agent on its x,y position.
+export const ENCODERS: Record<EncoderKind, (view: () => string, earlier: string[], config: ObservationConfig) => string | undefined> = {
+  position: () => undefined,
+  local: view => view(),
+  history: (view, earlier, { historyLength }) =>
+    [...earlier.slice(Math.max(0, earlier.length - historyLength + 1)), view()].join(' '),
+};
+
+// What the environment treats as blocked for an agent holding `keys` at `step`; the defaults match
+// the start of an episode, with every door locked and every gate closed
+export const gridBlocked = (grid: MazeCell[][], keys: number = 0, step: number = 0) => (x: number, y: number): boolean => {
+  const cell = grid[y]?.[x];
+  if (!cell || cell.isWall) return true;
+  if (cell.cellType === 'gate') return !isGateOpen(cell, step);
+  return cell.cellType === 'door' && (cell.link === undefined || (keys & (1 << cell.link)) === 0);
+};
+
+// The table key (without held keys) a cell maps to, for overlays that walk the grid; null when it
+// depends on the path taken
+export const cellStateKey = (
+  isBlocked: (x: number, y: number) => boolean,
+  pos: Position,
+  goal: Position,
+  config: ObservationConfig
+): string | null => {
+  if (config.encoder === 'history') return null;
+  if (config.encoder === 'local') return localView(isBlocked, pos, goal, config);
+  return `${pos.x},${pos.y}`;
+};
@@ -0,0 +1,259 @@
+import { Action, Agent, Algorithm, ExplorationConfig, Position, QTable, ScheduleConfig, SerializedAgent } from '../types';
+import { SeededRandom, randomSeed } from './SeededRandom';
+import { DEFAULT_EXPLORATION, EXPLORATION_POLICIES, ExplorationContext } from './ExplorationPolicies';
+import { DEFAULT_ALPHA_SCHEDULE, DEFAULT_EPSILON_SCHEDULE, advanceSchedule } from './Schedules';
+
+// Shared ε-greedy behaviour and bookkeeping for the Q-table agents; subclasses only differ in their update target
+export abstract class TabularAgent implements Agent {
+  public abstract readonly algorithm: Algorithm;
+
+  public qTable: QTable = {};
+  public alpha: number = 0.1;   // Current learning rate
+  public initialAlpha: number = 0.1;
+  public gamma: number = 0.9;   // Discount factor
+  public epsilon: number = 0.1; // Current exploration rate
+  public initialEpsilon: number = 0.1;
+
+  // Both default to the classic behaviour: ε × 0.995 per episode down to 0.01, α fixed
+  public epsilonSchedule: ScheduleConfig = { ...DEFAULT_EPSILON_SCHEDULE };
+  public alphaSchedule: ScheduleConfig = { ...DEFAULT_ALPHA_SCHEDULE };
+  public episodesDecayed: number = 0;
+
+  // Number of updates made from each state, and the TD error of the latest one
+  public visitCounts: Record<string, number> = {};
+  public lastTdErrors: Record<string, number> = {};
+  // Times each action was taken per state, the N(s,a) of UCB1
+  public actionCounts: Record<string, number[]> = {};
+
+  public exploration: ExplorationConfig = { ...DEFAULT_EXPLORATION };
+  public temperature: number = DEFAULT_EXPLORATION.temperature; // Current Boltzmann temperature
+
+  // All exploration and tie-breaking draws come from this generator, so a seed replays the same run
+  public seed: number;
+  protected rng: SeededRandom;
+
+  protected actions: Action[] = [Action.UP, Action.RIGHT, Action.DOWN, Action.LEFT];
+
+  constructor(alpha: number, gamma: number, epsilon: number, seed: number = randomSeed()) {
+    this.alpha = alpha;
+    this.initialAlpha = alpha;
+    this.gamma = gamma;
+    this.epsilon = epsilon;
+    this.initialEpsilon = epsilon;
+    this.seed = seed;
+    this.rng = new SeededRandom(seed);
+  }
+
+  // Shorthands for the ε schedule's floor and rate, kept from when decay was a fixed multiplier
+  public get minEpsilon(): number {
+    return this.epsilonSchedule.floor;
+  }
+
+  public set minEpsilon(value: number) {
+    this.epsilonSchedule.floor = value;
+  }
+
+  public get decayRate(): number {
+    return this.epsilonSchedule.rate;
+  }
+
+  public set decayRate(value: number) {
+    this.epsilonSchedule.rate = value;
+  }
+
+  public setSchedules(epsilonSchedule: ScheduleConfig, alphaSchedule: ScheduleConfig): void {
+    this.epsilonSchedule = { ...epsilonSchedule };
+    this.alphaSchedule = { ...alphaSchedule };
+  }
+
+  public reseed(seed: number): void {
+    this.seed = seed;
+    this.rng = new SeededRandom(seed);
+  }
+
+  // Keys held are part of the state, so a cell seen with and without a key gets separate Q-values.
+  // Under a partial-observability encoder the observation replaces the cell, and look-alike cells share values.
+  protected getStateKey(pos: Position): string {
+    const base = pos.obs ?? `${pos.x},${pos.y}`;
+    return pos.keys ? `${base}|${pos.keys}` : base;
+  }
+
+  protected initialQValues(): number[] {
+    return this.actions.map(() => this.exploration.initialQ);
+  }
+
+  public getQValues(pos: Position): number[] {
+    const key = this.getStateKey(pos);
+    if (!this.qTable[key]) {
+      this.qTable[key] = this.initialQValues();
+    }
+    return this.qTable[key];
+  }
+
+  public getMaxQ(pos: Position): number {
+    return Math.max(...this.getQValues(pos));
+  }
+
+  // Deterministic argmax (first best action wins) that leaves unseen states out of the table
+  public getGreedyAction(pos: Position): Action {
+    const qValues = this.qTable[this.getStateKey(pos)] ?? this.initialQValues();
+    return qValues.indexOf(Math.max(...qValues)) as Action;
+  }
+
+  protected explorationContext(pos: Position): ExplorationContext {
+    return {
+      qValues: this.getQValues(pos),
+      counts: this.actionCounts[this.getStateKey(pos)] ?? [0, 0, 0, 0],
+      epsilon: this.epsilon,
+      temperature: this.temperature,
+      ucbC: this.exploration.ucbC,
+    };
+  }
+
+  public chooseAction(pos: Position): Action {
+    return EXPLORATION_POLICIES[this.exploration.strategy].choose(this.explorationContext(pos), this.rng);
+  }
+
+  // Probability of each action under the current exploration policy
+  public getActionProbabilities(pos: Position): number[] {
+    return EXPLORATION_POLICIES[this.exploration.strategy].probabilities(this.explorationContext(pos));
+  }
+
+  public setExploration(config: ExplorationConfig): void {
+    this.exploration = { ...config };
+    this.temperature = config.temperature;
+  }
+
+  public abstract update(
+    state: Position,
+    action: Action,
+    reward: number,
+    nextState: Position,
+    done?: boolean,
+    nextAction?: Action
+  ): void;
+
+  // Whether update() bootstraps from, or cuts traces on, the action actually taken next
+  protected readonly usesNextAction: boolean = false;
+
+  // Agents that need a' pick it before updating, so it is the action they really take. The rest update
+  // first, so a' already reflects what this step taught them.
+  public learnAndChoose(state: Position, action: Action, reward: number, nextState: Position, done: boolean): Action | undefined {
+    if (this.usesNextAction) {
+      const nextAction = done ? undefined : this.chooseAction(nextState);
+      this.update(state, action, reward, nextState, done, nextAction);
+      return nextAction;
+    }
+    this.update(state, action, reward, nextState, done);
+    return done ? undefined : this.chooseAction(nextState);
+  }
+
+  public decay(): void {
+    this.episodesDecayed += 1;
+    this.epsilon = advanceSchedule(this.epsilonSchedule, this.epsilon, this.initialEpsilon, this.episodesDecayed);
+    this.alpha = advanceSchedule(this.alphaSchedule, this.alpha, this.initialAlpha, this.episodesDecayed);
+    this.temperature = Math.max(
+      this.exploration.minTemperature,
+      this.temperature * this.exploration.temperatureDecay
+    );
+  }
+
+  public decayCuriosity(): void {
+    this.decay();
+  }
+
+  public resetQTable(): void {
+    this.qTable = {};
+    this.visitCounts = {};
+    this.lastTdErrors = {};
+    this.actionCounts = {};
+    this.epsilon = this.initialEpsilon;
+    this.alpha = this.initialAlpha;
+    this.episodesDecayed = 0;
+    this.temperature = this.exploration.temperature;
+    this.reseed(this.seed);
+  }
+
+  public setParameters(alpha: number, gamma: number, initialEpsilon: number): void {
+    this.alpha = alpha;
+    this.initialAlpha = alpha;
+    this.gamma = gamma;
+    this.initialEpsilon = initialEpsilon;
+    this.epsilon = initialEpsilon;
+    this.episodesDecayed = 0;
+  }
+
+  public setQTable(newQTable: QTable): void {
+    this.qTable = { ...newQTable };
+  }
+
+  public serialize(): SerializedAgent {
+    return {
+      algorithm: this.algorithm,
+      alpha: this.alpha,
+      gamma: this.gamma,
+      epsilon: this.epsilon,
+      initialEpsilon: this.initialEpsilon,
+      minEpsilon: this.minEpsilon,
+      decayRate: this.decayRate,
+      qTable: this.qTable,
+      visitCounts: this.visitCounts,
+      lastTdErrors: this.lastTdErrors,
+      seed: this.seed,
+      rngState: this.rng.getState(),
+      exploration: this.exploration,
+      temperature: this.temperature,
+      actionCounts: this.actionCounts,
+      initialAlpha: this.initialAlpha,
+      epsilonSchedule: this.epsilonSchedule,
+      alphaSchedule: this.alphaSchedule,
+      episodesDecayed: this.episodesDecayed,
+    };
+  }
+
+  public restore(data: SerializedAgent): void {
+    this.alpha = data.alpha;
+    this.initialAlpha = data.initialAlpha ?? data.alpha;
+    this.gamma = data.gamma;
+    this.initialEpsilon = data.initialEpsilon;
+    this.epsilon = data.epsilon;
+    // Older exports only carry minEpsilon and decayRate, which map onto the exponential ε schedule
+    this.setSchedules(
+      data.epsilonSchedule ?? DEFAULT_EPSILON_SCHEDULE,
+      data.alphaSchedule ?? DEFAULT_ALPHA_SCHEDULE
+    );
+    this.minEpsilon = data.minEpsilon;
+    this.decayRate = data.decayRate;
+    this.episodesDecayed = data.episodesDecayed ?? 0;
+    this.setQTable(data.qTable);
+    this.visitCounts = { ...data.visitCounts };
+    this.lastTdErrors = { ...data.lastTdErrors };
+    this.actionCounts = { ...data.actionCounts };
+    if (data.exploration) {
+      this.setExploration({ ...DEFAULT_EXPLORATION, ...data.exploration });
+      this.temperature = data.temperature ?? this.exploration.temperature;
+    }
+    if (data.seed !== undefined) {
+      this.seed = data.seed;
+      this.rng = new SeededRandom(data.rngState ?? data.seed);
+    }
+  }
+
+  protected recordUpdate(state: Position, action: Action, tdError: number): void {
+    const key = this.getStateKey(state);
+    this.visitCounts[key] = (this.visitCounts[key] ?? 0) + 1;
+    if (!this.actionCounts[key]) this.actionCounts[key] = [0, 0, 0, 0];
+    this.actionCounts[key][action] += 1;
+    this.lastTdErrors[key] = tdError;
+  }
+
+  // Applies the TD step Q(s,a) += α(target - Q(s,a)) and returns the TD error
+  protected applyTarget(state: Position, action: Action, target: number): number {
+    const currentQValues = this.getQValues(state);
+    const tdError = target - currentQValues[action];
+    currentQValues[action] += this.alpha * tdError;
+    this.qTable[this.getStateKey(state)] = currentQValues;
+    this.recordUpdate(state, action, tdError);
+    return tdError;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from "vitest";
+import { TransferEvaluator, transferSeeds } from "./TransferEvaluation";
+import { QLearningAgent } from "./QLearningAgent";
+import { DEFAULT_DYNAMICS, DEFAULT_REWARDS } from "./MazeEnvironment";
+import { DEFAULT_OBSERVATION } from "./StateEncoders";
+import { EncoderKind, TransferConfig, TransferSetup } from "../types";
+
+const setup = (encoder: EncoderKind): TransferSetup => ({
+  width: 7,
+  height: 7,
+  algorithm: "dfs",
+  braid: 0,
+  maxSteps: 200,
+  rewards: DEFAULT_REWARDS,
+  dynamics: DEFAULT_DYNAMICS,
+  observation: { ...DEFAULT_OBSERVATION, encoder },
+});
+
+const evaluate = (config: TransferConfig, encoder: EncoderKind) =>
+  new TransferEvaluator(new QLearningAgent(0.5, 0.9, 0.2, 7), config, setup(encoder)).run();
+
+describe("TransferEvaluation", () => {
+  it("should hold out the seeds after the training ones", () => {
+    expect(transferSeeds({ trainMazes: 3, testMazes: 2, episodesPerMaze: 1, seed: 10 })).toEqual({
+      train: [10, 11, 12],
+      test: [13, 14],
+    });
+  });
+
+  it("should report progress over every training episode", () => {
+    const onProgress = vi.fn();
+    const config = { trainMazes: 2, testMazes: 1, episodesPerMaze: 5, seed: 1 };
+
+    const report = new TransferEvaluator(new QLearningAgent(0.5, 0.9, 0.2), config, setup("position")).run(onProgress, 4);
+
+    expect(onProgress.mock.calls.map(([completed]) => completed)).toEqual([4, 8, 10]);
+    expect(report.train.results.map((r) => r.seed)).toEqual([1, 2]);
+    expect(report.test.results.map((r) => r.seed)).toEqual([3]);
+  });
+
+  it("should overfit a single maze under the x,y encoder", () => {
+    const report = evaluate({ trainMazes: 1, testMazes: 4, episodesPerMaze: 200, seed: 10 }, "position");
+
+    expect(report.train.successRate).toBe(1);
+    expect(report.train.meanSteps).toBe(12);
+    expect(report.test.successRate).toBe(0);
+    expect(report.test.meanSteps).toBeNull();
+  });
+
+  it("should share states between mazes under the local view", () => {
+    const config = { trainMazes: 4, testMazes: 1, episodesPerMaze: 50, seed: 10 };
+
+    expect(evaluate(config, "local").states).toBeLessThan(evaluate(config, "position").states);
+  });
+});
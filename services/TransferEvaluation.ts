@@ -0,0 +1,88 @@
+import { Agent, EpisodeResult, MazeCell, Position, TransferConfig, TransferReport, TransferScore, TransferSetup } from '../types';
+import { MazeGenerator } from './MazeGenerator';
+import { MazeEnvironment } from './MazeEnvironment';
+import { BatchTrainer } from './BatchTrainer';
+
+export const DEFAULT_TRANSFER: TransferConfig = {
+  trainMazes: 5,
+  testMazes: 5,
+  episodesPerMaze: 100,
+  seed: 1000,
+};
+
+// Held-out mazes take the seeds straight after the training ones, so the two sets never overlap
+export const transferSeeds = ({ trainMazes, testMazes, seed }: TransferConfig): { train: number[]; test: number[] } => ({
+  train: Array.from({ length: trainMazes }, (_, i) => seed + i),
+  test: Array.from({ length: testMazes }, (_, i) => seed + trainMazes + i),
+});
+
+// Same corners as a maze generated in the simulator
+const seededMaze = (seed: number, setup: TransferSetup): { grid: MazeCell[][]; start: Position; goal: Position } => {
+  const { width, height, algorithm, braid } = setup;
+  const grid = new MazeGenerator(width, height, { seed, algorithm, braid }).generate();
+  const start = { x: 0, y: 0 };
+  const goal = { x: width - 1, y: height - 1 };
+  grid[start.y][start.x].isWall = false;
+  grid[goal.y][goal.x].isWall = false;
+  return { grid, start, goal };
+};
+
+const score = (results: (EpisodeResult & { seed: number })[]): TransferScore => {
+  const solved = results.filter(r => r.success);
+  return {
+    successRate: results.length > 0 ? solved.length / results.length : 0,
+    meanSteps: solved.length > 0 ? solved.reduce((sum, r) => sum + r.steps, 0) / solved.length : null,
+    results,
+  };
+};
+
+// Trains one agent across several seeded mazes, then scores its greedy policy on those mazes and on
+// held-out ones. Under the x,y encoder mazes of one size share state keys, so a held-out maze is walked
+// with moves memorised for the same coordinates elsewhere; a local view lets look-alike places share values.
+export class TransferEvaluator {
+  private agent: Agent;
+  private config: TransferConfig;
+  private setup: TransferSetup;
+
+  constructor(agent: Agent, config: TransferConfig, setup: TransferSetup) {
+    this.agent = agent;
+    this.config = config;
+    this.setup = setup;
+  }
+
+  private trainerFor(seed: number): BatchTrainer {
+    const { grid, start, goal } = seededMaze(seed, this.setup);
+    const env = new MazeEnvironment(grid, start, goal, this.setup.maxSteps, this.setup.rewards, this.setup.dynamics, seed);
+    env.gamma = this.agent.gamma;
+    env.observation = { ...this.setup.observation };
+    return new BatchTrainer(this.agent, env);
+  }
+
+  public get totalEpisodes(): number {
+    return this.config.trainMazes * this.config.episodesPerMaze;
+  }
+
+  public run(onProgress?: (completed: number) => void, progressEvery: number = 10): TransferReport {
+    const seeds = transferSeeds(this.config);
+    const trainers = seeds.train.map(seed => this.trainerFor(seed));
+
+    // Mazes take turns episode by episode, so the last one trained on does not overwrite the others
+    let completed = 0;
+    for (let round = 0; round < this.config.episodesPerMaze; round++) {
+      trainers.forEach(trainer => {
+        trainer.runEpisode();
+        completed += 1;
+        if (onProgress && (completed % progressEvery === 0 || completed === this.totalEpisodes)) {
+          onProgress(completed);
+        }
+      });
+    }
+
+    const evaluate = (seed: number, trainer: BatchTrainer) => ({ ...trainer.runGreedyEpisode(), seed });
+    return {
+      train: score(seeds.train.map((seed, i) => evaluate(seed, trainers[i]))),
+      test: score(seeds.test.map(seed => evaluate(seed, this.trainerFor(seed)))),
+      states: Object.keys(this.agent.qTable).length,
+    };
+  }
+}
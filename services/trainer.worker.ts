@@ -0,0 +1,30 @@
+import { TrainerMessage, TrainerRequest } from '../types';
+import { deserializeAgent } from './AgentFactory';
+import { MazeEnvironment } from './MazeEnvironment';
+import { BatchTrainer } from './BatchTrainer';
+import { EpisodeRecorder } from './EpisodeRecorder';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: TrainerMessage) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<TrainerRequest>) => {
+  const { grid, startPos, goalPos, maxSteps, rewards, dynamics, seed, episodes, firstEpisode, shift, shifted, observation, evalEvery } = event.data;
+
+  const agent = deserializeAgent(event.data.agent);
+  const env = new MazeEnvironment(grid, startPos, goalPos, maxSteps, rewards, dynamics, seed);
+  env.gamma = agent.gamma;
+  env.observation = observation;
+
+  const progressEvery = Math.max(1, Math.floor(episodes / 50));
+  const recorder = new EpisodeRecorder();
+  recorder.shifted = shifted;
+  const summary = new BatchTrainer(agent, env, recorder, firstEpisode, shift).run(
+    episodes,
+    (completed) => post({ type: 'progress', completed, total: episodes }),
+    progressEvery,
+    evalEvery
+  );
+
+  post({ type: 'done', agent: agent.serialize(), summary, recordings: recorder.getRecordings() });
+};
@@ -0,0 +1,20 @@
+import { TransferMessage, TransferRequest } from '../types';
+import { deserializeAgent } from './AgentFactory';
+import { TransferEvaluator } from './TransferEvaluation';
+
+const ctx = self as unknown as Worker;
+
+const post = (message: TransferMessage) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<TransferRequest>) => {
+  const { config, setup } = event.data;
+
+  const evaluator = new TransferEvaluator(deserializeAgent(event.data.agent), config, setup);
+  const total = evaluator.totalEpisodes;
+  const report = evaluator.run(
+    (completed) => post({ type: 'progress', completed, total }),
+    Math.max(1, Math.floor(total / 50))
+  );
+
+  post({ type: 'done', report });
+};
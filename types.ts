@@ -2,6 +2,11 @@
 export type Position = {
   x: number;
   y: number;
+  // Bitmask of what was picked up this episode: key pairs in the low bits, then one-shot goals and
+  // collectibles. Left out while empty, so plain mazes keep x,y states
+  keys?: number;
+  // What the agent perceives under a partial-observability encoder; stands in for x,y in the agent's state
+  obs?: string;
 };
 
 export enum Action {
@@ -11,23 +16,383 @@ export enum Action {
   LEFT = 3
 }
 
+// What an open cell does to the agent; walls stay on isWall so generated mazes need no cell types
+export type CellType =
+  | 'floor'
+  | 'ice'        // Moves starting here slip with the ice slip probability
+  | 'mud'        // Entering costs the extra mud cost
+  | 'trap'       // Entering costs the trap penalty and ends the episode
+  | 'one-way'    // Can only be entered and left in `direction`
+  | 'teleporter' // Entering jumps to the other teleporter with the same `link`
+  | 'key'        // Entering picks up key `link`
+  | 'door'       // Blocks like a wall until key `link` is held
+  | 'extra-goal' // Pays `reward`; ends the episode unless `terminal` is false, in which case it pays once
+  | 'collectible' // Pays `reward` once; the episode ends when every collectible is picked up
+  | 'gate'       // Closed for `period` steps, then open for `period` steps, counted from the episode start
+  | 'patrol';    // Waypoint `order` of hazard `link`, which walks its waypoints back and forth
+
 export type MazeCell = {
   x: number;
   y: number;
   isWall: boolean;
+  // Missing means plain floor
+  cellType?: CellType;
+  direction?: Action;
+  // Pair number joining two teleporters, or a key to its doors
+  link?: number;
+  // Extra goals and collectibles only
+  reward?: number;
+  terminal?: boolean;
+  // Steps between gate toggles or patrol moves
+  period?: number;
+  order?: number;
 };
 
 export type QTable = Record<string, number[]>;
 
+export type MazeAlgorithm = 'dfs' | 'prim' | 'kruskal' | 'wilson' | 'eller' | 'division';
+
+// Everything needed to regenerate the same procedural maze
+export type MazeConfig = {
+  width: number;
+  height: number;
+  seed: number;
+  algorithm: MazeAlgorithm;
+  braid: number;
+};
+
+export type EncoderKind = 'position' | 'local' | 'history';
+
+// How the environment describes the agent's state to it
+export type ObservationConfig = {
+  encoder: EncoderKind;
+  // Neighbouring cells the local view reads walls from
+  neighbours: 4 | 8;
+  // Adds the rough direction of the goal to the local view
+  compass: boolean;
+  // Local views the history encoder strings together, including the current one
+  historyLength: number;
+};
+
+export type ShiftMode = 'regenerate' | 'block-route';
+
+// Changes the maze once, partway through training, to test how fast the agent re-adapts
+export type ShiftConfig = {
+  enabled: boolean;
+  // First episode played on the new layout
+  episode: number;
+  mode: ShiftMode;
+  // Maze seed for the regenerate mode
+  seed: number;
+};
+
+export type MazeShift = {
+  episode: number;
+  grid: MazeCell[][];
+};
+
+export type Algorithm =
+  | 'q-learning'
+  | 'sarsa'
+  | 'expected-sarsa'
+  | 'double-q'
+  | 'q-lambda'
+  | 'sarsa-lambda'
+  | 'dyna-q';
+
+// How a revisit changes an eligibility trace: add 1, or reset it to 1
+export type TraceKind = 'accumulating' | 'replacing';
+
+export type ScheduleKind = 'constant' | 'exponential' | 'linear' | 'step' | 'inverse-time';
+
+// How ε or α changes from one episode to the next; each kind reads only the fields it needs
+export type ScheduleConfig = {
+  kind: ScheduleKind;
+  // Lowest value the schedule may reach
+  floor: number;
+  // Multiplier for exponential and step, k for inverse-time
+  rate: number;
+  // Episodes a linear schedule takes to reach the floor
+  duration: number;
+  // Episodes between drops of a step schedule
+  interval: number;
+};
+
+// Simulated updates Dyna-Q runs from its learned model after every real step
+export type PlanningConfig = {
+  steps: number;
+  // Replay the state-actions whose value would change most instead of random ones
+  prioritized: boolean;
+  // Smallest expected change that still enters the prioritized sweeping queue
+  threshold: number;
+};
+
+// Last observed outcome of taking `action` in `state`
+export type ModelTransition = {
+  state: Position;
+  action: Action;
+  reward: number;
+  nextState: Position;
+  done: boolean;
+};
+
+export type ExplorationStrategy = 'epsilon-greedy' | 'boltzmann' | 'ucb1';
+
+export type ExplorationConfig = {
+  strategy: ExplorationStrategy;
+  // Boltzmann temperature at the start, its floor, and the per-episode multiplier
+  temperature: number;
+  minTemperature: number;
+  temperatureDecay: number;
+  // UCB1 exploration constant c
+  ucbC: number;
+  // Starting Q-value for every unseen state-action; above zero makes the agent optimistic
+  initialQ: number;
+};
+
+// Plain-JSON snapshot of an agent, used by the runner export and the training worker
+export type SerializedAgent = {
+  algorithm: Algorithm;
+  alpha: number;
+  gamma: number;
+  epsilon: number;
+  initialEpsilon: number;
+  minEpsilon: number;
+  decayRate: number;
+  qTable: QTable;
+  // Double Q-learning keeps two independent estimates
+  qTableA?: QTable;
+  qTableB?: QTable;
+  // Seed of the exploration RNG, and where its sequence currently is
+  seed?: number;
+  rngState?: number;
+  exploration?: ExplorationConfig;
+  temperature?: number;
+  initialAlpha?: number;
+  epsilonSchedule?: ScheduleConfig;
+  alphaSchedule?: ScheduleConfig;
+  episodesDecayed?: number;
+  // Trace decay λ and trace kind of the Q(λ) and SARSA(λ) agents
+  lambda?: number;
+  traceKind?: TraceKind;
+  // Dyna-Q's planning settings, learned model and running count of simulated updates
+  planning?: PlanningConfig;
+  model?: ModelTransition[];
+  planningUpdates?: number;
+  actionCounts?: Record<string, number[]>;
+  // Per-state diagnostics for the Q inspector; older exports leave them out
+  visitCounts?: Record<string, number>;
+  lastTdErrors?: Record<string, number>;
+};
+
+export interface Agent {
+  readonly algorithm: Algorithm;
+  // Seed of the exploration RNG; evaluations derive their slip seeds from it
+  seed: number;
+  qTable: QTable;
+  alpha: number;
+  gamma: number;
+  epsilon: number;
+  initialEpsilon: number;
+  chooseAction(pos: Position): Action;
+  getGreedyAction(pos: Position): Action;
+  // nextAction is the action the behaviour policy will actually take from nextState (needed by on-policy methods)
+  update(
+    state: Position,
+    action: Action,
+    reward: number,
+    nextState: Position,
+    done?: boolean,
+    nextAction?: Action
+  ): void;
+  // Learns from one transition and returns the action to take from nextState (none once done)
+  learnAndChoose(state: Position, action: Action, reward: number, nextState: Position, done: boolean): Action | undefined;
+  decay(): void;
+  serialize(): SerializedAgent;
+  getQValues(pos: Position): number[];
+  resetQTable(): void;
+  setParameters(alpha: number, gamma: number, initialEpsilon: number): void;
+  setQTable(newQTable: QTable): void;
+}
+
 export interface SimulationState {
   episode: number;
   step: number;
   totalReward: number;
   epsilon: number;
   isGoalReached: boolean;
+  // The episode ended on a trap
+  isTrapped: boolean;
   bestStepCount: number | null;
+  wallHits: number;
+  // Latest greedy evaluation, kept apart from the exploring training episodes
+  lastEval?: EvalRecord | null;
   startPos?: Position;
   goalPos?: Position;
 }
 
-export type View = 'landing' | 'simulator' | 'designer';
+export interface RunnerStats extends SimulationState {
+  // Length of the ε=0 path after the latest episode, null while it does not reach the goal
+  greedyPathLength: number | null;
+  // First episode of the run where the greedy path stopped changing, null until then
+  convergedAt: number | null;
+}
+
+export type View = 'landing' | 'simulator' | 'designer' | 'compare';
+
+// All values are added to the step reward as-is, so costs and penalties are negative
+export interface RewardConfig {
+  stepCost: number;
+  wallPenalty: number;
+  goalReward: number;
+  revisitPenalty: number;
+  // Potential-based shaping F = γΦ(s') - Φ(s) with Φ = -scale * distance to goal; 0 disables it
+  shapingScale: number;
+  // Added on top of the step cost when entering mud
+  mudCost: number;
+  // Replaces the step reward when walking into a trap
+  trapPenalty: number;
+}
+
+// Chance that a move slips: the agent goes perpendicular to its action or stays put instead
+export interface DynamicsConfig {
+  slipProbability: number;
+  // Used instead on ice tiles when it is higher
+  iceSlipProbability: number;
+}
+
+export type StepInfo = {
+  // Direction the agent actually tried to move after any slip, null when it slipped in place
+  move: Action | null;
+  slipped: boolean;
+  hitWall: boolean;
+  // Any successful ending: the main goal, a terminal extra goal, or the last collectible
+  reachedGoal: boolean;
+  // Walked into a trap or was caught by a patrol, which ends the episode without success
+  trapped: boolean;
+  teleported: boolean;
+  // Took a one-shot goal or collectible
+  pickedUp: boolean;
+  revisited: boolean;
+  shapingBonus: number;
+  step: number;
+};
+
+export interface StepResult {
+  nextState: Position;
+  reward: number;
+  done: boolean;
+  truncated: boolean;
+  info: StepInfo;
+}
+
+export type EpisodeResult = {
+  steps: number;
+  totalReward: number;
+  // ε in effect while the episode ran, before the end-of-episode decay
+  epsilon: number;
+  // false means the episode hit the step limit
+  success: boolean;
+  wallHits: number;
+};
+
+export type EpisodeRecord = EpisodeResult & {
+  episode: number;
+};
+
+// A finished episode's moves, replayable by stepping them through the same maze
+export type EpisodeRecording = {
+  episode: number;
+  // One digit per Action actually moved, in order; '.' for a slip in place
+  actions: string;
+  steps: number;
+  success: boolean;
+  totalReward: number;
+  // Ran on the layout the maze shift swapped in rather than the original one
+  shifted?: boolean;
+};
+
+// One greedy episode (ε = 0, no learning) run after `episode` training episodes had finished
+export type EvalRecord = {
+  episode: number;
+  steps: number;
+  totalReward: number;
+  success: boolean;
+};
+
+export type BatchSummary = {
+  episodes: number;
+  successes: number;
+  bestStepCount: number | null;
+  results: EpisodeResult[];
+  evaluations: EvalRecord[];
+};
+
+// Messages exchanged with the background training worker
+export type TrainerRequest = {
+  grid: MazeCell[][];
+  startPos: Position;
+  goalPos: Position;
+  maxSteps: number;
+  rewards: RewardConfig;
+  dynamics: DynamicsConfig;
+  // Seed for the worker's slip draws
+  seed: number;
+  agent: SerializedAgent;
+  episodes: number;
+  // Episode number the batch continues from, so recordings line up with the live history
+  firstEpisode: number;
+  // Layout change due inside this batch
+  shift?: MazeShift;
+  // The shift already happened before this batch, so its recordings belong to the shifted layout
+  shifted: boolean;
+  observation: ObservationConfig;
+  // Greedy evaluation after every this many training episodes, 0 for none
+  evalEvery: number;
+};
+
+export type TrainerMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; agent: SerializedAgent; summary: BatchSummary; recordings: EpisodeRecording[] };
+
+// Train on a set of seeded mazes, then run the greedy policy on mazes it has never seen
+export type TransferConfig = {
+  trainMazes: number;
+  testMazes: number;
+  episodesPerMaze: number;
+  // Seed of the first training maze; the others count up from it and the held-out mazes follow
+  seed: number;
+};
+
+// Everything the generated mazes share besides their seed
+export type TransferSetup = Omit<MazeConfig, 'seed'> & {
+  maxSteps: number;
+  rewards: RewardConfig;
+  dynamics: DynamicsConfig;
+  observation: ObservationConfig;
+};
+
+export type TransferScore = {
+  // Share of the mazes the greedy policy solved
+  successRate: number;
+  // Mean steps over the solved mazes, null when none was
+  meanSteps: number | null;
+  results: (EpisodeResult & { seed: number })[];
+};
+
+export type TransferReport = {
+  train: TransferScore;
+  test: TransferScore;
+  // Table entries learned, which shows how far the encoder lets states be shared
+  states: number;
+};
+
+export type TransferRequest = {
+  agent: SerializedAgent;
+  config: TransferConfig;
+  setup: TransferSetup;
+};
+
+export type TransferMessage =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; report: TransferReport };